@@ -1,7 +1,15 @@
 import crypto from "node:crypto";
 import fs from "node:fs";
+import { builtinModules } from "node:module";
 import path from "node:path";
-import type { Plugin } from "vite";
+import {
+  createFilter,
+  type FilterPattern,
+  type Logger,
+  type Plugin,
+  type Rollup,
+  version as viteVersion,
+} from "vite";
 
 interface NativeFileInfo {
   /** File content for emission */
@@ -10,22 +18,217 @@ interface NativeFileInfo {
   hashedFilename: string;
   /** Absolute path to the original .node file */
   originalPath: string;
+  /** Per-platform alternatives selected at runtime when bundling for several platforms */
+  variants?: NativeVariant[];
+  /** Modules that referenced this file */
+  importers: Set<string>;
+}
+
+interface NativeVariant {
+  /** Target the file was resolved for */
+  target: ResolvedTarget;
+  /** Registered file for that target */
+  info: NativeFileInfo;
 }
 
 interface PackageConfig {
-  /** Package name to target (e.g., 'native-package-123') */
+  /** Package name to target, installed in node_modules or a local workspace package (e.g., 'native-package-123') */
   package: string;
-  /** Additional file names to copy (e.g., ['native-file.node-macos', 'addon.node-linux']) */
+  /** Additional file names or globs relative to the package root to copy (e.g., ['addon.node-linux', '**\/*.node-*', 'lib/*.{so,dylib}']) */
   fileNames: string[];
 }
 
+export interface NativeRuntime {
+  /** Runtime that loads the bundle */
+  name: "node" | "electron";
+  /** Runtime version (e.g., '20.11.0' or '31.x'). Defaults to the running Node.js version */
+  version?: string;
+}
+
+export interface NativeTarget {
+  /** Target operating system (e.g., 'linux', 'darwin', 'win32'). Defaults to npm_config_platform, then process.platform */
+  platform?: string;
+  /** Target CPU architecture (e.g., 'x64', 'arm64'). Defaults to npm_config_arch, then process.arch */
+  arch?: string;
+  /** Target C library on Linux. Defaults to npm_config_libc, then the host's libc when building on Linux */
+  libc?: "glibc" | "musl";
+  /** Target runtime and version. Defaults to npm_config_runtime/npm_config_target, then the running Node.js */
+  runtime?: NativeRuntime;
+}
+
+interface ResolvedTarget {
+  platform: string;
+  arch: string;
+  libc?: "glibc" | "musl";
+  runtime: Required<NativeRuntime>;
+  /** NODE_MODULE_VERSION of the runtime, when known */
+  abi?: string;
+}
+
+// Tags parsed from a prebuildify filename (e.g., node.abi115.glibc.node)
+interface PrebuildTags {
+  file: string;
+  specificity: number;
+  runtime?: string;
+  napi?: boolean;
+  abi?: string;
+  uv?: string;
+  armv?: string;
+  libc?: string;
+}
+
+// Name, version and optionalDependencies of the package a file belongs to
+interface PackageInfo {
+  name: string;
+  version: string | null;
+  directory: string;
+  optionalDependencies: string[];
+}
+
+// Scope of a declared name, with the property of process it holds when it was
+// destructured from process (e.g., const { platform } = process)
+interface BindingScope {
+  start: number;
+  end: number;
+  processProperty?: string;
+}
+
+// A native-loading call that was recognized but couldn't be resolved
+interface UnresolvedNativeLoad {
+  /** Module containing the call */
+  file: string;
+  /** 1-based line of the call */
+  line: number;
+  /** 1-based column of the call */
+  column: number;
+  /** Detected loading pattern (e.g., 'bindings', 'node-gyp-build') */
+  pattern: string;
+  /** Paths that were checked for a native file */
+  candidates: string[];
+  /** Entries of `platforms` left without a binary when others have one */
+  platforms?: string[];
+}
+
+// Options of a bindings() call, the string form being { bindings: name }
+interface BindingsOptions {
+  /** Name of the binary, '.node' is appended when missing */
+  bindings: string;
+  /** Directory the try paths start from, the package root by default */
+  module_root?: string;
+  /** Paths to try instead of the defaults, as lists of segments */
+  try?: string[][];
+  /** Other options try segments can refer to (e.g., compiled) */
+  overrides: Record<string, string>;
+}
+
+// Paths the bindings package tries, in order. Segments naming an option
+// (module_root, bindings, compiled, version, platform, arch, nodePreGyp) are
+// replaced by its value, the others are used as is
+const BINDINGS_TRY_PATHS = [
+  ["module_root", "build", "bindings"],
+  ["module_root", "build", "Debug", "bindings"],
+  ["module_root", "build", "Release", "bindings"],
+  ["module_root", "out", "Debug", "bindings"],
+  ["module_root", "Debug", "bindings"],
+  ["module_root", "out", "Release", "bindings"],
+  ["module_root", "Release", "bindings"],
+  ["module_root", "build", "default", "bindings"],
+  ["module_root", "compiled", "version", "platform", "arch", "bindings"],
+  ["module_root", "addon-build", "release", "install-root", "bindings"],
+  ["module_root", "addon-build", "debug", "install-root", "bindings"],
+  ["module_root", "addon-build", "default", "install-root", "bindings"],
+  ["module_root", "lib", "binding", "nodePreGyp", "bindings"],
+];
+
 export interface NativeFilePluginOptions {
-  /** Enable the plugin. Defaults to true in build mode, false in dev mode */
+  /** Use build behavior (hashing and emitting) in every mode, or disable the plugin with false. By default the dev server loads native files in place */
   forced?: boolean;
+  /** Platform, architecture, libc and runtime to select native binaries for. Defaults to the host */
+  target?: NativeTarget;
+  /** Bundle binaries for several platforms (e.g., 'linux-x64', 'linux-x64-musl' or target objects) and select one at runtime */
+  platforms?: Array<string | NativeTarget>;
+  /** Evaluate process.platform, process.arch and isMusl() checks against the target and drop the branches that can't run (e.g., the other platforms of NAPI-RS loaders). Ignored with platforms. Defaults to false */
+  foldPlatformChecks?: boolean;
   /** Additional native file configurations for packages with non-standard file extensions */
   additionalNativeFiles?: PackageConfig[];
-  /** Format for generated native file names. 'preserve' keeps original name with hash suffix, 'hash-only' uses only the hash. Defaults to 'preserve' */
-  filenameFormat?: "preserve" | "hash-only";
+  /** Modules to transform, as picomatch globs or regular expressions (like @rollup/pluginutils createFilter). Defaults to every module */
+  include?: FilterPattern;
+  /** Modules to leave untouched, as picomatch globs or regular expressions */
+  exclude?: FilterPattern;
+  /** Packages whose modules are left untouched (e.g., packages that ship their own bundler-friendly loaders) */
+  skipPackages?: string[];
+  /** Format for generated native file names. 'preserve' keeps original name with hash suffix, 'hash-only' uses only the hash, any other string is a template with [name], [hash] (or [hash:N] for N characters), [package], [platform], [arch], [ext] and [extname] tokens. Defaults to Rollup's output.assetFileNames when set, then 'preserve' */
+  filenameFormat?:
+    | "preserve"
+    | "hash-only"
+    | (string & {})
+    | ((file: NativeFileNameInfo) => string);
+  /** Subdirectory of the output directory to emit native files into (e.g., 'native'). Defaults to the output root */
+  nativeDir?: string;
+  /** Hash algorithm for content hashes in file names. Defaults to 'md5' */
+  hashAlgorithm?: "md5" | "sha1" | "sha256";
+  /** Number of hex characters of the content hash used in file names. Defaults to 8 */
+  hashLength?: number;
+  /** Fail the build on native loads that can't be resolved and on modules that can't be parsed, instead of warning. Defaults to false */
+  strict?: boolean;
+  /** Emit a manifest of all bundled native files. Pass a string to change the file name. Defaults to false ('native-manifest.json' when true) */
+  manifest?: boolean | string;
+}
+
+export interface NativeFileNameInfo {
+  /** Original file name without extension (e.g., 'addon') */
+  name: string;
+  /** Extension of the original file, including the dot (e.g., '.node') */
+  extname: string;
+  /** Content hash of the file */
+  hash: string;
+  /** File-safe name of the package that ships the file (e.g., 'libsql-linux-x64-gnu'), if any */
+  packageName: string | null;
+  /** Platform the file was selected for */
+  platform: string;
+  /** Architecture the file was selected for */
+  arch: string;
+  /** Absolute path of the original file */
+  originalPath: string;
+}
+
+export interface NativeManifestEntry {
+  /** Output file name of the emitted native file */
+  file: string;
+  /** Path of the original native file, relative to the project root */
+  originalPath: string;
+  /** Name of the package that ships the file, if any */
+  packageName: string | null;
+  /** Version of the package that ships the file, if any */
+  packageVersion: string | null;
+  /** File size in bytes */
+  size: number;
+  /** Hex-encoded SHA-256 of the file content */
+  sha256: string;
+  /** Modules that referenced the file, relative to the project root */
+  importers: string[];
+}
+
+// Text replacement in a transformed module, positioned against the original code
+interface Replacement {
+  start: number;
+  end: number;
+  value: string;
+}
+
+// The transform hook as a plain function, so it can run again for a module
+type TransformHandler = Extract<
+  NonNullable<Plugin["transform"]>,
+  (...args: never[]) => unknown
+>;
+
+// Source map (v3) produced for transformed modules
+interface SourceMapV3 {
+  version: 3;
+  sources: string[];
+  sourcesContent: string[];
+  names: string[];
+  mappings: string;
 }
 
 // ESTree AST Node types
@@ -61,6 +264,44 @@ interface MemberExpressionNode extends BaseASTNode {
   property: BaseASTNode;
 }
 
+interface ArrayExpressionNode extends BaseASTNode {
+  type: "ArrayExpression";
+  elements: Array<BaseASTNode | null>;
+}
+
+interface BinaryExpressionNode extends BaseASTNode {
+  type: "BinaryExpression" | "LogicalExpression";
+  operator: string;
+  left: BaseASTNode;
+  right: BaseASTNode;
+}
+
+// IfStatement or ConditionalExpression
+interface ConditionalNode extends BaseASTNode {
+  test: BaseASTNode;
+  consequent: BaseASTNode;
+  alternate?: BaseASTNode | null;
+  start: number;
+  end: number;
+}
+
+interface SwitchStatementNode extends BaseASTNode {
+  type: "SwitchStatement";
+  discriminant: BaseASTNode;
+  cases: Array<{
+    test: BaseASTNode | null;
+    consequent: BaseASTNode[];
+    start: number;
+    end: number;
+  }>;
+}
+
+interface TemplateLiteralNode extends BaseASTNode {
+  type: "TemplateLiteral";
+  quasis: Array<{ value: { raw: string; cooked: string } }>;
+  expressions: BaseASTNode[];
+}
+
 interface VariableDeclaratorNode extends BaseASTNode {
   type: "VariableDeclarator";
   id: BaseASTNode;
@@ -107,6 +348,10 @@ function isMemberExpression(node: BaseASTNode): node is MemberExpressionNode {
   return node.type === "MemberExpression";
 }
 
+function isArrayExpression(node: BaseASTNode): node is ArrayExpressionNode {
+  return node.type === "ArrayExpression";
+}
+
 function isVariableDeclarator(
   node: BaseASTNode
 ): node is VariableDeclaratorNode {
@@ -127,6 +372,744 @@ function isImportSpecifier(node: BaseASTNode): node is ImportSpecifierNode {
   return node.type === "ImportSpecifier";
 }
 
+// Helper function to check for node-gyp-build and its fork that also looks for
+// platform packages, node-gyp-build-optional-packages
+function isNodeGypBuildPackage(value: unknown): value is string {
+  return (
+    value === "node-gyp-build" || value === "node-gyp-build-optional-packages"
+  );
+}
+
+// Helper function to check for the node-pre-gyp package (and its old unscoped name)
+function isNodePreGypPackage(value: unknown): boolean {
+  return value === "@mapbox/node-pre-gyp" || value === "node-pre-gyp";
+}
+
+// Base64 digits used by source map VLQ encoding
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+// Helper function to encode a number as a source map VLQ
+function encodeVLQ(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = "";
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 32;
+    encoded += BASE64_CHARS[digit];
+  } while (vlq > 0);
+  return encoded;
+}
+
+// Helper function to splice replacements into code and build a matching source map
+// Replacements are positioned against the original code. Zero-length replacements
+// are insertions. When replacements overlap, the outermost one wins.
+// Mappings are emitted at the start of every token and at every replacement
+// boundary, which keeps both lines and columns accurate in stack traces
+function applyReplacements(
+  code: string,
+  replacements: Replacement[],
+  sourceId: string
+): { code: string; map: SourceMapV3 } {
+  const sorted = [...replacements].sort(
+    (a, b) =>
+      a.start - b.start ||
+      Number(b.start === b.end) - Number(a.start === a.end) ||
+      b.end - a.end
+  );
+
+  let output = "";
+  let mappings = "";
+  let generatedColumn = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  // Segment fields are relative to the previous segment
+  let previousGeneratedColumn = 0;
+  let previousOriginalLine = 0;
+  let previousOriginalColumn = 0;
+  let lineHasSegment = false;
+
+  const addSegment = () => {
+    mappings +=
+      (lineHasSegment ? "," : "") +
+      encodeVLQ(generatedColumn - previousGeneratedColumn) +
+      encodeVLQ(0) +
+      encodeVLQ(originalLine - previousOriginalLine) +
+      encodeVLQ(originalColumn - previousOriginalColumn);
+    previousGeneratedColumn = generatedColumn;
+    previousOriginalLine = originalLine;
+    previousOriginalColumn = originalColumn;
+    lineHasSegment = true;
+  };
+
+  const startGeneratedLine = () => {
+    mappings += ";";
+    generatedColumn = 0;
+    previousGeneratedColumn = 0;
+    lineHasSegment = false;
+  };
+
+  // Copy unchanged code, mapping each token back to its original position
+  const copyOriginal = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      const char = code[i];
+      if (char === "\n") {
+        output += char;
+        startGeneratedLine();
+        originalLine++;
+        originalColumn = 0;
+        continue;
+      }
+      const previous = code[i - 1];
+      if (
+        i === from ||
+        !lineHasSegment ||
+        (/\S/.test(char) && (/\s/.test(previous) || /\W/.test(char + previous)))
+      ) {
+        addSegment();
+      }
+      output += char;
+      generatedColumn++;
+      originalColumn++;
+    }
+  };
+
+  // Write replacement text, mapping it to the start of the code it replaces
+  const writeReplacement = (value: string) => {
+    if (value.length > 0) addSegment();
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] === "\n") {
+        output += "\n";
+        startGeneratedLine();
+      } else {
+        output += value[i];
+        generatedColumn++;
+      }
+    }
+  };
+
+  // Advance the original position past replaced code
+  const skipOriginal = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      if (code[i] === "\n") {
+        originalLine++;
+        originalColumn = 0;
+      } else {
+        originalColumn++;
+      }
+    }
+  };
+
+  let cursor = 0;
+  for (const replacement of sorted) {
+    // Skip replacements nested inside one that was already applied
+    if (replacement.start < cursor) continue;
+    copyOriginal(cursor, replacement.start);
+    writeReplacement(replacement.value);
+    skipOriginal(replacement.start, replacement.end);
+    cursor = replacement.end;
+  }
+  copyOriginal(cursor, code.length);
+
+  return {
+    code: output,
+    map: {
+      version: 3,
+      sources: [sourceId],
+      sourcesContent: [code],
+      names: [],
+      mappings,
+    },
+  };
+}
+
+// Helper function to normalize libc names from config or environment variables
+function parseLibc(value: string | undefined): "glibc" | "musl" | undefined {
+  if (value === "glibc" || value === "gnu") return "glibc";
+  if (value === "musl") return "musl";
+  return undefined;
+}
+
+// Helper function to detect the C library of the host
+// glibcVersionRuntime is only reported when Node.js runs against glibc
+function detectHostLibc(): "glibc" | "musl" | undefined {
+  if (process.platform !== "linux") return undefined;
+  try {
+    const report = process.report?.getReport() as
+      { header?: { glibcVersionRuntime?: string } } | undefined;
+    return report?.header?.glibcVersionRuntime ? "glibc" : "musl";
+  } catch {
+    return "glibc";
+  }
+}
+
+// Helper function to resolve the build target
+// Priority: explicit option > npm_config_* environment variables (as used by
+// node-gyp, prebuild-install and electron-rebuild) > host process values
+// libc is only taken from the host for Linux targets built on Linux, and not at
+// all for platform entries, which match any libc unless one is given
+function resolveTarget(
+  target: NativeTarget = {},
+  detectLibc = true
+): ResolvedTarget {
+  const env = process.env;
+  const platform =
+    target.platform ?? env.npm_config_platform ?? process.platform;
+  const runtimeName =
+    target.runtime?.name ??
+    (env.npm_config_runtime === "electron" ? "electron" : "node");
+  const runtimeVersion =
+    target.runtime?.version ??
+    (target.runtime ? undefined : env.npm_config_target) ??
+    (runtimeName === "node" ? process.versions.node : "");
+
+  return {
+    platform,
+    arch: target.arch ?? env.npm_config_arch ?? process.arch,
+    libc:
+      target.libc ??
+      parseLibc(env.npm_config_libc) ??
+      (detectLibc && platform === process.platform
+        ? detectHostLibc()
+        : undefined),
+    runtime: { name: runtimeName, version: runtimeVersion },
+    abi: resolveAbi(runtimeName, runtimeVersion),
+  };
+}
+
+// NODE_MODULE_VERSION of each Node.js major release
+const NODE_ABI_VERSIONS: Record<number, string> = {
+  8: "57",
+  9: "59",
+  10: "64",
+  11: "67",
+  12: "72",
+  13: "79",
+  14: "83",
+  15: "88",
+  16: "93",
+  17: "102",
+  18: "108",
+  19: "111",
+  20: "115",
+  21: "120",
+  22: "127",
+  23: "131",
+  24: "137",
+  25: "141",
+};
+
+// NODE_MODULE_VERSION of each Electron major release
+const ELECTRON_ABI_VERSIONS: Record<number, string> = {
+  5: "70",
+  6: "73",
+  7: "75",
+  8: "76",
+  9: "80",
+  10: "82",
+  11: "85",
+  12: "87",
+  13: "89",
+  14: "97",
+  15: "98",
+  16: "99",
+  17: "101",
+  18: "103",
+  19: "106",
+  20: "107",
+  21: "109",
+  22: "110",
+  23: "113",
+  24: "114",
+  25: "116",
+  26: "116",
+  27: "118",
+  28: "119",
+  29: "121",
+  30: "123",
+  31: "125",
+  32: "128",
+  33: "130",
+  34: "132",
+  35: "133",
+  36: "135",
+  37: "136",
+};
+
+// Helper function to find the ABI (NODE_MODULE_VERSION) of a runtime version
+// Versions may be partial (e.g., '31.x'), only the major version is used
+function resolveAbi(
+  runtimeName: NativeRuntime["name"],
+  version: string
+): string | undefined {
+  const major = parseInt(version.replace(/^v/, ""), 10);
+  if (runtimeName === "electron") return ELECTRON_ABI_VERSIONS[major];
+  if (version === process.versions.node) return process.versions.modules;
+  return NODE_ABI_VERSIONS[major];
+}
+
+// Helper function to parse a prebuilds/ directory name like 'linux-x64' or 'darwin-x64+arm64'
+// Mirrors node-gyp-build's parseTuple
+function parsePrebuildTuple(
+  name: string
+): { name: string; platform: string; architectures: string[] } | null {
+  const parts = name.split("-");
+  if (parts.length !== 2) return null;
+  const [platform, architectures] = [parts[0], parts[1].split("+")];
+  if (!platform || !architectures.every(Boolean)) return null;
+  return { name, platform, architectures };
+}
+
+// Helper function to parse the tags of a prebuild filename
+// Mirrors node-gyp-build's parseTags: node.napi.node, electron.abi118.node, node.abi115.musl.node, ...
+function parsePrebuildTags(file: string): PrebuildTags | null {
+  const parts = file.split(".");
+  if (parts.pop() !== "node") return null;
+
+  const tags: PrebuildTags = { file, specificity: 0 };
+  for (const tag of parts) {
+    if (tag === "node" || tag === "electron" || tag === "node-webkit") {
+      tags.runtime = tag;
+    } else if (tag === "napi") {
+      tags.napi = true;
+    } else if (tag.startsWith("abi")) {
+      tags.abi = tag.slice(3);
+    } else if (tag.startsWith("uv")) {
+      tags.uv = tag.slice(2);
+    } else if (tag.startsWith("armv")) {
+      tags.armv = tag.slice(4);
+    } else if (tag === "glibc" || tag === "musl") {
+      tags.libc = tag;
+    } else {
+      continue;
+    }
+    tags.specificity++;
+  }
+  return tags;
+}
+
+// Helper function to check whether prebuild tags can be loaded by the target
+// Mirrors node-gyp-build's matchTags, evaluated against the build target instead of the host
+function matchesPrebuildTags(
+  tags: PrebuildTags,
+  buildTarget: ResolvedTarget
+): boolean {
+  const runtime = buildTarget.runtime.name;
+  // napi builds for node also load in other runtimes
+  const runtimeAgnostic = tags.runtime === "node" && tags.napi;
+  if (tags.runtime && tags.runtime !== runtime && !runtimeAgnostic) {
+    return false;
+  }
+  if (tags.abi && tags.abi !== buildTarget.abi && !tags.napi) return false;
+  if (tags.uv && tags.uv !== process.versions.uv?.split(".")[0]) return false;
+  if (tags.armv && tags.armv !== getTargetArmVersion(buildTarget)) {
+    return false;
+  }
+  if (tags.libc && tags.libc !== (buildTarget.libc ?? "glibc")) return false;
+  return true;
+}
+
+// Helper function to order matching prebuilds, best first
+// Mirrors node-gyp-build's compareTags: exact runtime, then abi over napi, then specificity
+function comparePrebuildTags(
+  a: PrebuildTags,
+  b: PrebuildTags,
+  runtime: string
+): number {
+  if (a.runtime !== b.runtime) return a.runtime === runtime ? -1 : 1;
+  if (a.abi !== b.abi) return a.abi ? -1 : 1;
+  return b.specificity - a.specificity;
+}
+
+// Helper function to find the ARM version a target runs (e.g., '7' for armv7)
+function getTargetArmVersion(buildTarget: ResolvedTarget): string {
+  if (process.env.ARM_VERSION) return process.env.ARM_VERSION;
+  if (buildTarget.arch === "arm64") return "8";
+  if (buildTarget.arch === "arm" && process.arch === "arm") {
+    const variables = process.config.variables as Record<string, unknown>;
+    return String(variables.arm_version ?? "");
+  }
+  return "";
+}
+
+// Global the loader calls in multi-format builds, replaced per output in renderChunk
+const NATIVE_REQUIRE_PLACEHOLDER = "__NATIVE_MODULES_REQUIRE__";
+
+// File Vite writes its build.manifest to by default, Vite 5 moved it into .vite
+const DEFAULT_VITE_MANIFEST =
+  parseInt(viteVersion, 10) >= 5 ? ".vite/manifest.json" : "manifest.json";
+
+// Tokens available in filenameFormat templates
+const FILENAME_TEMPLATE_TOKENS = [
+  "name",
+  "hash",
+  "package",
+  "platform",
+  "arch",
+  "ext",
+  "extname",
+];
+
+// Helper function to fill the [token] placeholders of a file name template
+// Empty tokens (e.g., [package] outside node_modules) drop their path segment.
+// [hash:N] takes the first N characters of digest, like Rollup's assetFileNames
+function renderFilenameTemplate(
+  template: string,
+  values: Record<string, string>,
+  digest = ""
+): string {
+  return template
+    .replace(
+      /\[(\w+)(?::(\d+))?\]/g,
+      (placeholder, token: string, length?: string) => {
+        if (!(token in values) || (length !== undefined && token !== "hash")) {
+          throw new Error(
+            `[plugin-native-modules] Unknown placeholder ${placeholder} in file name template "${template}"`
+          );
+        }
+        if (length === undefined) return values[token];
+
+        const hashLength = Number(length);
+        if (hashLength < 1 || hashLength > digest.length) {
+          throw new Error(
+            `[plugin-native-modules] Hash length in ${placeholder} of file name template "${template}" must be between 1 and ${digest.length}`
+          );
+        }
+        return digest.slice(0, hashLength).toUpperCase();
+      }
+    )
+    .replace(/\/{2,}/g, "/")
+    .replace(/^\//, "");
+}
+
+// Helper function to check that a relative output path stays inside the output directory
+function isInsideOutputDir(fileName: string): boolean {
+  const normalized = fileName.replace(/\\/g, "/");
+  return (
+    !path.posix.isAbsolute(normalized) && !normalized.split("/").includes("..")
+  );
+}
+
+// Helper function to check that a package or file name isn't built for another libc
+// Names without a libc marker (e.g., 'darwin-arm64') match every target
+function matchesLibcName(name: string, buildTarget: ResolvedTarget): boolean {
+  const otherLibc = buildTarget.libc === "musl" ? /gnu/i : /musl/i;
+  return !otherLibc.test(name);
+}
+
+// Helper function to check that a platform-specific package name is built for a target
+// e.g., '@libsql/linux-x64-gnu' or 'sharp-linuxmusl-x64' for linux-x64 (glibc/musl)
+function matchesTargetPackageName(
+  name: string,
+  buildTarget: ResolvedTarget
+): boolean {
+  const tokens = name
+    .replace(/^@[^/]+\//, "")
+    .toLowerCase()
+    .split(/[-.]/);
+  return (
+    tokens.some((token) => token.startsWith(buildTarget.platform)) &&
+    tokens.includes(buildTarget.arch) &&
+    matchesLibcName(name, buildTarget)
+  );
+}
+
+// Helper function to find the package a file belongs to from its node_modules path
+// Uses the last node_modules segment, so pnpm's .pnpm/<name>@<version>/node_modules/<name> works
+function getNodeModulesPackage(
+  filePath: string
+): { name: string; directory: string } | null {
+  const matches = [
+    ...filePath.matchAll(/node_modules[/\\](@[^/\\]+[/\\][^/\\]+|[^/\\]+)/g),
+  ];
+  if (matches.length === 0) return null;
+  const match = matches[matches.length - 1];
+  return {
+    name: match[1].replace(/\\/g, "/"),
+    directory: filePath.slice(0, match.index! + match[0].length),
+  };
+}
+
+// Placeholder for {node_abi} in node-pre-gyp module paths whose ABI is only
+// known by prefix (electron-v<major>.*)
+const NODE_ABI_PLACEHOLDER = "\0";
+
+// Helper function to find an existing file for a path holding NODE_ABI_PLACEHOLDER
+// Lists the directory above the first placeholder and tries the entries that put
+// an ABI starting with prefix there, e.g. electron-v31.2-linux-x64 for electron-v31.
+function findNodeAbiPath(filePath: string, prefix: string): string | null {
+  const start = filePath.indexOf(NODE_ABI_PLACEHOLDER);
+  const dirEnd = filePath.lastIndexOf(path.sep, start);
+  const segmentEnd = filePath.indexOf(path.sep, start);
+  const dir = filePath.slice(0, dirEnd);
+  const segment = filePath.slice(
+    dirEnd + 1,
+    segmentEnd === -1 ? undefined : segmentEnd
+  );
+  const rest = segmentEnd === -1 ? "" : filePath.slice(segmentEnd);
+  const [before, after = ""] = segment.split(NODE_ABI_PLACEHOLDER);
+
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(dir);
+  } catch {
+    return null;
+  }
+
+  for (const entry of entries) {
+    if (
+      entry.length < before.length + prefix.length + after.length ||
+      !entry.startsWith(before + prefix) ||
+      !entry.endsWith(after)
+    ) {
+      continue;
+    }
+    const nodeAbi = entry.slice(before.length, entry.length - after.length);
+    const candidate = path.join(
+      dir,
+      segment.split(NODE_ABI_PLACEHOLDER).join(nodeAbi) +
+        rest.split(NODE_ABI_PLACEHOLDER).join(nodeAbi)
+    );
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+// Helper function to find the names a declaration or parameter pattern binds
+function getPatternNames(pattern: BaseASTNode | null | undefined): string[] {
+  if (!pattern) return [];
+  const node = pattern as BaseASTNode & {
+    name?: string;
+    properties?: Array<BaseASTNode & { value?: BaseASTNode }>;
+    elements?: Array<BaseASTNode | null>;
+    left?: BaseASTNode;
+    argument?: BaseASTNode;
+  };
+  switch (node.type) {
+    case "Identifier":
+      return [node.name!];
+    case "ObjectPattern":
+      return node.properties!.flatMap((property) =>
+        getPatternNames(property.value ?? property)
+      );
+    case "ArrayPattern":
+      return node.elements!.flatMap(getPatternNames);
+    case "AssignmentPattern":
+      return getPatternNames(node.left);
+    case "RestElement":
+      return getPatternNames(node.argument);
+    default:
+      return [];
+  }
+}
+
+// Helper function to collect the scope of every variable, parameter, function and
+// class declared in a module, so a reference can be matched with its declaration
+// Declarations destructured from process (const { platform } = process) record
+// the property they hold
+function collectBindingScopes(ast: BaseASTNode): Map<string, BindingScope[]> {
+  const bindings = new Map<string, BindingScope[]>();
+  const declare = (
+    names: string[],
+    scope: BaseASTNode,
+    processProperties?: Map<string, string>
+  ) => {
+    for (const bindingName of names) {
+      const scopes = bindings.get(bindingName) ?? [];
+      scopes.push({
+        start: scope.start!,
+        end: scope.end!,
+        processProperty: processProperties?.get(bindingName),
+      });
+      bindings.set(bindingName, scopes);
+    }
+  };
+
+  const visit = (
+    node: BaseASTNode,
+    functionScope: BaseASTNode,
+    blockScope: BaseASTNode
+  ): void => {
+    const declaration = node as BaseASTNode & {
+      id?: BaseASTNode | null;
+      params?: BaseASTNode[];
+      param?: BaseASTNode | null;
+      kind?: string;
+      declarations?: VariableDeclaratorNode[];
+    };
+    let innerFunctionScope = functionScope;
+    let innerBlockScope = blockScope;
+
+    switch (node.type) {
+      case "FunctionDeclaration":
+      case "FunctionExpression":
+      case "ArrowFunctionExpression":
+        // Function declarations are visible in the enclosing block, the name of
+        // a function expression only inside of it
+        if (declaration.id) {
+          declare(
+            getPatternNames(declaration.id),
+            node.type === "FunctionDeclaration" ? blockScope : node
+          );
+        }
+        declare(declaration.params!.flatMap(getPatternNames), node);
+        innerFunctionScope = node;
+        innerBlockScope = node;
+        break;
+      case "ClassDeclaration":
+        if (declaration.id)
+          declare(getPatternNames(declaration.id), blockScope);
+        break;
+      case "CatchClause":
+        declare(getPatternNames(declaration.param), node);
+        innerBlockScope = node;
+        break;
+      case "BlockStatement":
+      case "StaticBlock":
+      case "SwitchStatement":
+      case "ForStatement":
+      case "ForInStatement":
+      case "ForOfStatement":
+        innerBlockScope = node;
+        break;
+      case "VariableDeclaration":
+        for (const declarator of declaration.declarations!) {
+          const processProperties = new Map<string, string>();
+          if (
+            declarator.id.type === "ObjectPattern" &&
+            declarator.init &&
+            isIdentifier(declarator.init) &&
+            declarator.init.name === "process"
+          ) {
+            const { properties } = declarator.id as BaseASTNode & {
+              properties: Array<{ key?: BaseASTNode; value?: BaseASTNode }>;
+            };
+            for (const { key, value } of properties) {
+              if (key && value && isIdentifier(key) && isIdentifier(value)) {
+                processProperties.set(value.name, key.name);
+              }
+            }
+          }
+          declare(
+            getPatternNames(declarator.id),
+            declaration.kind === "var" ? functionScope : blockScope,
+            processProperties
+          );
+        }
+        break;
+    }
+
+    for (const key in node) {
+      if (key === "type" || key === "start" || key === "end") continue;
+      const child = (node as unknown as Record<string, unknown>)[key];
+      if (child && typeof child === "object") {
+        if (Array.isArray(child)) {
+          child.forEach((c) => {
+            if (c && typeof c === "object" && "type" in c) {
+              visit(c as BaseASTNode, innerFunctionScope, innerBlockScope);
+            }
+          });
+        } else if ("type" in child) {
+          visit(child as BaseASTNode, innerFunctionScope, innerBlockScope);
+        }
+      }
+    }
+  };
+
+  visit(ast, ast, ast);
+  return bindings;
+}
+
+// Helper function to find the property of process a reference holds, when the
+// innermost declaration of its name in scope was destructured from process
+function resolveProcessProperty(
+  bindings: Map<string, BindingScope[]>,
+  reference: IdentifierNode
+): string | undefined {
+  let innermost: BindingScope[] = [];
+  for (const scope of bindings.get(reference.name) ?? []) {
+    if (scope.start > reference.start! || reference.start! >= scope.end) {
+      continue;
+    }
+    const size = scope.end - scope.start;
+    const innermostSize = innermost.length
+      ? innermost[0].end - innermost[0].start
+      : Infinity;
+    if (size < innermostSize) innermost = [scope];
+    else if (size === innermostSize) innermost.push(scope);
+  }
+  // Redeclarations in the same scope (var) only count when they all agree
+  const [first] = innermost;
+  return first &&
+    innermost.every((scope) => scope.processProperty === first.processProperty)
+    ? first.processProperty
+    : undefined;
+}
+
+// Helper function to convert a glob with *, **, ?, [...] and {a,b} into a regular expression
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // '**/' also matches no directory at all
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[" && glob.indexOf("]", i + 1) !== -1) {
+      const end = glob.indexOf("]", i + 1);
+      source += `[${glob.slice(i + 1, end).replace(/^!/, "^")}]`;
+      i = end;
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Helper function to resolve symlinks (pnpm's store, workspace links) in a path
+// Paths that don't exist are returned as is
+function toRealPath(filePath: string): string {
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    return filePath;
+  }
+}
+
+// Helper function to convert a character offset into a 1-based line and column
+function getLineColumn(
+  code: string,
+  offset: number
+): { line: number; column: number } {
+  const lines = code.slice(0, offset).split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+// Helper function to parse a platform shorthand like 'linux-x64' or 'linux-x64-musl'
+function parsePlatformShorthand(value: string): NativeTarget {
+  const [platform, arch, libc] = value.split("-");
+  return { platform, arch, libc: parseLibc(libc) };
+}
+
 export default function nativeFilePlugin(
   options: NativeFilePluginOptions = {}
 ): Plugin {
@@ -135,10 +1118,102 @@ export default function nativeFilePlugin(
   // Reverse mapping from hashed filename to original file path
   // Used to resolve transformed bindings/node-gyp-build calls
   const hashedFilenameToPath = new Map<string, string>();
+  // Different native files that were given the same output file name
+  const filenameCollisions: Array<{
+    fileName: string;
+    paths: [string, string];
+  }> = [];
+  // Native files a filenameFormat function named outside the output directory
+  const invalidFilenames: Array<{ fileName: string; path: string }> = [];
+  // Output subdirectory for native files, as a relative POSIX path without slashes around it
+  const nativeDir = (options.nativeDir ?? "")
+    .replace(/\\/g, "/")
+    .replace(/^(\.\/)+|\/+$/g, "");
+  if (!isInsideOutputDir(nativeDir)) {
+    throw new Error(
+      `[${name}] nativeDir must be a path inside the output directory, got "${options.nativeDir}"`
+    );
+  }
+  const hashAlgorithm = options.hashAlgorithm ?? "md5";
+  const hashLength = options.hashLength ?? 8;
+  const maxHashLength = { md5: 32, sha1: 40, sha256: 64 }[hashAlgorithm];
+  if (
+    !Number.isInteger(hashLength) ||
+    hashLength < 1 ||
+    hashLength > maxHashLength
+  ) {
+    throw new Error(
+      `[${name}] hashLength must be an integer between 1 and ${maxHashLength} for ${hashAlgorithm}, got ${hashLength}`
+    );
+  }
+  // Platform/arch/libc/runtime that native binaries are selected for
+  const target = resolveTarget(options.target);
+  // Additional targets when bundling for several platforms at once
+  const platformTargets = options.platforms?.map((entry) =>
+    resolveTarget(
+      {
+        runtime: options.target?.runtime,
+        ...(typeof entry === "string" ? parsePlatformShorthand(entry) : entry),
+      },
+      false
+    )
+  );
+  // Fail fast on unknown tokens and paths outside the output directory in a
+  // filenameFormat template
+  if (
+    typeof options.filenameFormat === "string" &&
+    options.filenameFormat !== "preserve" &&
+    options.filenameFormat !== "hash-only" &&
+    !isInsideOutputDir(
+      renderFilenameTemplate(
+        options.filenameFormat,
+        Object.fromEntries(
+          FILENAME_TEMPLATE_TOKENS.map((token) => [token, ""])
+        ),
+        "0".repeat(maxHashLength)
+      )
+    )
+  ) {
+    throw new Error(
+      `[${name}] filenameFormat must name files inside the output directory, got "${options.filenameFormat}"`
+    );
+  }
   // Track the output format from Vite config
   // This determines whether we generate ESM or CJS code in the load hook
   let outputFormat: "es" | "cjs" = "es"; // Default to ESM (Vite's default)
+  // Whether the build writes both ES and CommonJS outputs
+  let multiFormat = false;
   let command: "build" | "serve" = "build";
+  // Whether the plugin is active for the current command
+  let enabled = true;
+  // Dev server mode: native files are loaded in place instead of being hashed and emitted
+  let devServer = false;
+  // Project root, used for paths in manifests
+  let root = process.cwd();
+  // Whether Vite writes its own build manifest, or its file name
+  let viteManifest: boolean | string = false;
+  // Vite's logger, used for warnings outside of Rollup hooks
+  let logger: Logger | undefined;
+  // Modules the transform hook looks at, from the include/exclude options
+  // Recreated in configResolved so relative globs resolve against the project root
+  let moduleFilter = createFilter(options.include, options.exclude);
+  const skipPackages = new Set(options.skipPackages);
+  // Compiled additionalNativeFiles globs
+  const globPatterns = new Map<string, RegExp>();
+  // Package a directory belongs to, as resolveId and the transform pre-filter
+  // look it up for every module when additionalNativeFiles is set
+  const packageInfoCache = new Map<string, PackageInfo | null>();
+  // Native files that bare specifiers resolve to through Vite, by importer directory
+  // and specifier (null when Vite's resolver didn't lead to a native file)
+  const resolvedBareSpecifiers = new Map<string, string | null>();
+  // Rollup's output.assetFileNames, used for naming when filenameFormat isn't set
+  let assetFileNames:
+    string | ((assetInfo: Record<string, unknown>) => string) | undefined;
+  const warnedMessages = new Set<string>();
+  // Recognized native loads that couldn't be resolved, by module
+  const unresolvedLoads = new Map<string, UnresolvedNativeLoad[]>();
+  // Platform-specific optionalDependencies that aren't installed, by dependent package
+  const missingOptionalDependencies = new Map<string, Set<string>>();
 
   // Helper function to detect if a file is an ES module based on extension and content
   function detectModuleType(fileId: string, code?: string): boolean {
@@ -203,6 +1278,13 @@ export default function nativeFilePlugin(
     return false;
   }
 
+  // Helper function to check a module against include/exclude and skipPackages
+  function isModuleFiltered(id: string): boolean {
+    if (!moduleFilter(id)) return true;
+    const modulePackage = getNodeModulesPackage(id)?.name;
+    return modulePackage !== undefined && skipPackages.has(modulePackage);
+  }
+
   // Helper function to check if a file path should be processed based on package configs
   function shouldProcessFile(filePath: string, currentFileId: string): boolean {
     // Always process .node files
@@ -210,18 +1292,43 @@ export default function nativeFilePlugin(
 
     // Check additional native file configurations
     if (options.additionalNativeFiles) {
+      const normalizedPath = filePath.replace(/\\/g, "/");
       for (const pkgConfig of options.additionalNativeFiles) {
-        // Check if current file is within this package's node_modules
-        const pkgPath = `node_modules/${pkgConfig.package}`;
-        if (currentFileId.includes(pkgPath)) {
-          // Check if this file matches any of the configured file names
-          for (const fileName of pkgConfig.fileNames) {
+        // Check if current file is within this package
+        const packageDir = findConfiguredPackageDir(
+          pkgConfig.package,
+          currentFileId
+        );
+        if (!packageDir) continue;
+
+        // Globs match the path relative to the package root, or only the file
+        // name when they don't contain a slash
+        const relativePath = path
+          .relative(
+            packageDir,
+            path.resolve(path.dirname(currentFileId), filePath)
+          )
+          .split(path.sep)
+          .join("/");
+
+        // Check if this file matches any of the configured file names
+        for (const fileName of pkgConfig.fileNames) {
+          if (/[*?[{]/.test(fileName)) {
+            const pattern = getGlobPattern(fileName);
             if (
-              filePath.endsWith(fileName) ||
-              filePath.includes(`/${fileName}`)
+              pattern.test(
+                fileName.includes("/")
+                  ? relativePath
+                  : path.posix.basename(relativePath)
+              )
             ) {
               return true;
             }
+          } else if (
+            normalizedPath.endsWith(fileName) ||
+            normalizedPath.includes(`/${fileName}`)
+          ) {
+            return true;
           }
         }
       }
@@ -230,41 +1337,54 @@ export default function nativeFilePlugin(
     return false;
   }
 
-  // Helper function to resolve node-gyp-build style native module loading
-  // Mimics node-gyp-build's behavior: check prebuilds/ first, then build/Release/
-  function resolveNodeGypBuild(directory: string): string | null {
-    const platform = process.platform;
-    const arch = process.arch;
-
-    // Try prebuilds directory first
-    const prebuildsDir = path.join(
-      directory,
-      "prebuilds",
-      `${platform}-${arch}`
-    );
-
-    if (fs.existsSync(prebuildsDir)) {
-      try {
-        const files = fs.readdirSync(prebuildsDir);
-        const nodeFiles = files.filter((f) => f.endsWith(".node"));
-
-        if (nodeFiles.length > 0) {
-          // If multiple .node files exist, prefer napi over abi-specific
-          const napiFile = nodeFiles.find((f) => f.includes("napi"));
-          const selectedFile = napiFile || nodeFiles[0];
-          const fullPath = path.join(prebuildsDir, selectedFile);
+  // Helper function to find the root of a configured package if a module belongs to it
+  // Matches installed packages by their node_modules path and local workspace
+  // packages outside node_modules by the name in their package.json
+  function findConfiguredPackageDir(
+    packageName: string,
+    moduleId: string
+  ): string | null {
+    const installedPackage = getNodeModulesPackage(moduleId);
+    if (installedPackage) {
+      return installedPackage.name === packageName
+        ? installedPackage.directory
+        : null;
+    }
+    const packageInfo = readPackageInfo(moduleId);
+    return packageInfo?.name === packageName ? packageInfo.directory : null;
+  }
 
-          if (fs.existsSync(fullPath)) {
-            return fullPath;
-          }
-        }
-      } catch {
-        // Continue to fallback
-      }
+  // Helper function to compile globs from additionalNativeFiles once
+  function getGlobPattern(glob: string): RegExp {
+    let pattern = globPatterns.get(glob);
+    if (!pattern) {
+      pattern = globToRegExp(glob);
+      globPatterns.set(glob, pattern);
     }
+    return pattern;
+  }
+
+  // Helper function to resolve node-gyp-build style native module loading
+  // Mimics node-gyp-build's behavior for the build target: pick the best matching
+  // prebuild from prebuilds/, then fall back to build/Release/.
+  // Unlike node-gyp-build at runtime, prebuilds win over build/Release/, because a
+  // local build only targets the host while prebuilds cover the configured target
+  // Checked locations are appended to `tried` for diagnostics
+  function resolveNodeGypBuild(
+    directory: string,
+    buildTarget: ResolvedTarget = target,
+    tried: string[] = []
+  ): string | null {
+    const prebuild = resolvePrebuild(
+      path.join(directory, "prebuilds"),
+      buildTarget,
+      tried
+    );
+    if (prebuild) return prebuild;
 
     // Fallback to build/Release directory
     const buildDir = path.join(directory, "build", "Release");
+    tried.push(buildDir);
 
     if (fs.existsSync(buildDir)) {
       try {
@@ -286,6 +1406,187 @@ export default function nativeFilePlugin(
     return null;
   }
 
+  // Helper function to resolve node-gyp-build-optional-packages (lmdb, msgpackr-extract)
+  // It looks for a package named after the one in `directory` and the target,
+  // @<name>/<name>-<platform>-<arch> (@scope/<name>-<platform>-<arch> when scoped),
+  // with prebuildify-tagged binaries at its root, before node-gyp-build's lookup
+  function resolveOptionalPackagesBuild(
+    directory: string,
+    buildTarget: ResolvedTarget = target,
+    tried: string[] = []
+  ): string | null {
+    let packageName: unknown;
+    try {
+      packageName = JSON.parse(
+        fs.readFileSync(path.join(directory, "package.json"), "utf-8")
+      ).name;
+    } catch {
+      // Without a name there is no platform package to look for
+    }
+
+    if (typeof packageName === "string") {
+      const platformPackage = `${
+        packageName.startsWith("@") ? "" : `@${packageName}/`
+      }${packageName}-${buildTarget.platform}-${buildTarget.arch}`;
+      const packageDir = findInstalledPackage(platformPackage, directory);
+      tried.push(packageDir ?? platformPackage);
+      const prebuild = packageDir
+        ? resolvePrebuildFile(packageDir, buildTarget)
+        : null;
+      if (prebuild) return prebuild;
+    }
+
+    return resolveNodeGypBuild(directory, buildTarget, tried);
+  }
+
+  // Helper function to resolve the binary a node-gyp-build style loader picks
+  function resolveNodeGypBuildLoader(
+    loader: string,
+    directory: string,
+    buildTarget: ResolvedTarget = target,
+    tried: string[] = []
+  ): string | null {
+    return loader === "node-gyp-build-optional-packages"
+      ? resolveOptionalPackagesBuild(directory, buildTarget, tried)
+      : resolveNodeGypBuild(directory, buildTarget, tried);
+  }
+
+  // Helper function to select a prebuild from a prebuildify prebuilds/ directory
+  // Prefers single-arch tuple directories (linux-x64) over multi-arch ones
+  // (darwin-x64+arm64), then scores filename tags like node-gyp-build does
+  function resolvePrebuild(
+    prebuildsDir: string,
+    buildTarget: ResolvedTarget,
+    tried: string[] = []
+  ): string | null {
+    tried.push(prebuildsDir);
+    if (!fs.existsSync(prebuildsDir)) return null;
+
+    const { platform, arch } = buildTarget;
+    const targetDescription = describeTarget(buildTarget);
+
+    try {
+      const tuples = fs
+        .readdirSync(prebuildsDir)
+        .map(parsePrebuildTuple)
+        .filter(
+          (tuple): tuple is NonNullable<typeof tuple> =>
+            tuple !== null &&
+            tuple.platform === platform &&
+            tuple.architectures.includes(arch)
+        )
+        .sort((a, b) => a.architectures.length - b.architectures.length);
+
+      if (tuples.length === 0) {
+        warnOnce(
+          `No prebuild directory in ${prebuildsDir} matches ${targetDescription}`
+        );
+        return null;
+      }
+
+      return resolvePrebuildFile(
+        path.join(prebuildsDir, tuples[0].name),
+        buildTarget
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  // Helper function to select the prebuildify-tagged binary for the target
+  // among the files of a directory (e.g., prebuilds/linux-x64)
+  function resolvePrebuildFile(
+    tupleDir: string,
+    buildTarget: ResolvedTarget
+  ): string | null {
+    const targetDescription = describeTarget(buildTarget);
+
+    try {
+      const candidates = fs
+        .readdirSync(tupleDir)
+        .map(parsePrebuildTags)
+        .filter((tags): tags is PrebuildTags => tags !== null);
+      const matches = candidates
+        .filter((tags) => matchesPrebuildTags(tags, buildTarget))
+        .sort((a, b) => comparePrebuildTags(a, b, buildTarget.runtime.name));
+
+      if (matches.length === 0 && buildTarget.runtime.name === "electron") {
+        // Electron can't load Node.js ABI builds, but bundling one keeps the
+        // previous behavior and the warning points at the missing prebuild
+        const nodeAbiBuild = candidates
+          .filter(
+            (tags) =>
+              (!tags.runtime || tags.runtime === "node") &&
+              tags.abi &&
+              !tags.napi
+          )
+          .sort((a, b) => Number(b.abi) - Number(a.abi))[0];
+        if (nodeAbiBuild) {
+          warnOnce(
+            `Only Node.js ABI prebuilds are available in ${tupleDir} for ${targetDescription}, bundling ${nodeAbiBuild.file} which Electron cannot load`
+          );
+          return path.join(tupleDir, nodeAbiBuild.file);
+        }
+      }
+
+      if (matches.length === 0) {
+        warnOnce(
+          `No prebuild in ${tupleDir} matches ${targetDescription} (available: ${
+            candidates.map((tags) => tags.file).join(", ") || "none"
+          })`
+        );
+        return null;
+      }
+
+      return path.join(tupleDir, matches[0].file);
+    } catch {
+      return null;
+    }
+  }
+
+  // Helper function to describe a target in messages (e.g., 'linux-x64 (node abi115, glibc)')
+  function describeTarget(buildTarget: ResolvedTarget): string {
+    const details = [
+      `${buildTarget.runtime.name}${buildTarget.abi ? ` abi${buildTarget.abi}` : ""}`,
+      buildTarget.libc,
+    ].filter(Boolean);
+    return `${buildTarget.platform}-${buildTarget.arch} (${details.join(", ")})`;
+  }
+
+  // Helper to describe an emitted native file in the manifests
+  function createManifestEntry(info: NativeFileInfo): NativeManifestEntry {
+    const packageInfo = readPackageInfo(info.originalPath);
+    return {
+      file: info.hashedFilename,
+      originalPath: toRootRelativePath(info.originalPath),
+      packageName: packageInfo?.name ?? null,
+      packageVersion: packageInfo?.version ?? null,
+      size: info.content.length,
+      sha256: crypto.createHash("sha256").update(info.content).digest("hex"),
+      importers: [...info.importers].map(toRootRelativePath).sort(),
+    };
+  }
+
+  // Helper to describe the pattern of an unresolved load, with the platforms
+  // it's missing for when only some of them have a binary
+  function describeLoad(load: UnresolvedNativeLoad): string {
+    return load.platforms
+      ? `${load.pattern} for ${load.platforms.join(", ")}`
+      : load.pattern;
+  }
+
+  // Helper to log a warning through Vite's logger, once per message
+  function warnOnce(message: string): void {
+    if (warnedMessages.has(message)) return;
+    warnedMessages.add(message);
+    const formatted = `[${name}] ${message}`;
+    if (logger) {
+      logger.warn(formatted);
+    } else {
+      console.warn(formatted);
+    }
+  }
+
   // Helper function to find package root by walking up directories
   // Looks for package.json or node_modules directory
   function findPackageRoot(startDir: string): string {
@@ -313,38 +1614,225 @@ export default function nativeFilePlugin(
   }
 
   // Helper function to resolve bindings-style native module loading
-  // Mimics bindings package behavior: searches common build directories
+  // Mimics the bindings package: tries its paths (or the `try` option) in order,
+  // with the values of the build target instead of the running process
   function resolveBindings(
     directory: string,
-    moduleName: string
+    bindingsOptions: BindingsOptions,
+    buildTarget: ResolvedTarget = target,
+    tried: string[] = []
   ): string | null {
-    // Ensure moduleName has .node extension
+    // Ensure the binary name has .node extension
+    const moduleName = bindingsOptions.bindings;
     const nodeFileName = moduleName.endsWith(".node")
       ? moduleName
       : `${moduleName}.node`;
 
     // Find the package root (where build/ directory typically lives)
-    const packageRoot = findPackageRoot(directory);
-
-    // Common build paths to check (in priority order)
-    const searchPaths = [
-      path.join(packageRoot, "build", "Release", nodeFileName),
-      path.join(packageRoot, "build", "Debug", nodeFileName),
-      path.join(packageRoot, "out", "Release", nodeFileName),
-      path.join(packageRoot, "out", "Debug", nodeFileName),
-      path.join(packageRoot, "build", "default", nodeFileName),
-      path.join(packageRoot, "compiled", nodeFileName),
-      // Also check direct path (sometimes used in development)
-      path.join(packageRoot, nodeFileName),
-    ];
-
-    // Return the first path that exists
-    for (const searchPath of searchPaths) {
+    const packageRoot =
+      bindingsOptions.module_root ?? findPackageRoot(directory);
+
+    const { platform, arch, runtime, abi } = buildTarget;
+    const values: Record<string, string | undefined> = {
+      compiled: "compiled",
+      // process.versions.node, which isn't known for other runtimes
+      version:
+        runtime.name === "node" ? runtime.version.replace(/^v/, "") : undefined,
+      platform,
+      arch,
+      // Electron's node-pre-gyp layouts are looked up below instead
+      nodePreGyp:
+        abi && runtime.name === "node"
+          ? `node-v${abi}-${platform}-${arch}`
+          : undefined,
+      ...bindingsOptions.overrides,
+      module_root: packageRoot,
+      bindings: nodeFileName,
+    };
+
+    // Return the first path that exists, skipping paths with unknown values
+    for (const segments of bindingsOptions.try ?? BINDINGS_TRY_PATHS) {
+      const parts = segments.map((segment) =>
+        segment in values ? values[segment] : segment
+      );
+      if (parts.some((part) => part === undefined)) continue;
+
+      const searchPath = path.resolve(packageRoot, ...(parts as string[]));
+      tried.push(searchPath);
       if (fs.existsSync(searchPath)) {
         return searchPath;
       }
     }
 
+    // A custom try list is all bindings looks at
+    if (bindingsOptions.try) return null;
+
+    return resolveNodePreGypBinding(
+      packageRoot,
+      nodeFileName,
+      buildTarget,
+      tried
+    );
+  }
+
+  // Helper function to find a binary in a node-pre-gyp layout:
+  // lib/binding/{node-v<abi>|electron-v<major>.<minor>}-<platform>-<arch>/<name>.node
+  // Electron targets prefer electron-v* directories and warn when only Node.js ABI
+  // binaries are installed
+  function resolveNodePreGypBinding(
+    packageRoot: string,
+    nodeFileName: string,
+    buildTarget: ResolvedTarget,
+    tried: string[] = []
+  ): string | null {
+    const bindingDir = path.join(packageRoot, "lib", "binding");
+    tried.push(bindingDir);
+    if (!fs.existsSync(bindingDir)) return null;
+
+    const { platform, arch, runtime } = buildTarget;
+    const suffix = `-${platform}-${arch}`;
+    let entries: string[];
+    try {
+      entries = fs
+        .readdirSync(bindingDir)
+        .filter(
+          (entry) =>
+            entry.endsWith(suffix) &&
+            fs.existsSync(path.join(bindingDir, entry, nodeFileName))
+        );
+    } catch {
+      return null;
+    }
+
+    const findEntry = (prefix: string) =>
+      entries.find((entry) => entry.startsWith(prefix));
+
+    if (runtime.name === "electron") {
+      const major = parseInt(runtime.version.replace(/^v/, ""), 10);
+      const electronEntry = findEntry(`electron-v${major}.`);
+      if (electronEntry) {
+        return path.join(bindingDir, electronEntry, nodeFileName);
+      }
+
+      const nodeEntry = findEntry("node-v");
+      if (nodeEntry) {
+        warnOnce(
+          `Only Node.js ABI binaries are available in ${bindingDir} for ${describeTarget(buildTarget)}, bundling ${nodeEntry} which Electron cannot load`
+        );
+        return path.join(bindingDir, nodeEntry, nodeFileName);
+      }
+      return null;
+    }
+
+    const nodeEntry = findEntry(`node-v${buildTarget.abi}${suffix}`);
+    return nodeEntry ? path.join(bindingDir, nodeEntry, nodeFileName) : null;
+  }
+
+  // Helper function to resolve @mapbox/node-pre-gyp's binary.find(package.json)
+  // Expands the binary.module_path template of package.json for the build target
+  // (e.g., './lib/binding/{node_abi}-{platform}-{arch}'), trying the versions in
+  // binary.napi_versions from newest to oldest. Electron targets match
+  // electron-v<major>.* by prefix and warn when only Node.js ABI binaries are installed
+  function resolveNodePreGypFind(
+    packageJsonPath: string,
+    buildTarget: ResolvedTarget = target,
+    tried: string[] = []
+  ): string | null {
+    let packageJson;
+    try {
+      packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"));
+    } catch {
+      tried.push(packageJsonPath);
+      return null;
+    }
+
+    const binary = packageJson.binary;
+    if (
+      typeof binary?.module_name !== "string" ||
+      typeof binary.module_path !== "string"
+    ) {
+      tried.push(packageJsonPath);
+      return null;
+    }
+
+    const { platform, arch, runtime } = buildTarget;
+    // Electron binaries are named after the Electron version the package was
+    // built against, so {node_abi} is matched against the installed directories
+    const nodeAbi =
+      runtime.name === "electron"
+        ? NODE_ABI_PLACEHOLDER
+        : `node-v${buildTarget.abi}`;
+    const version =
+      typeof packageJson.version === "string" ? packageJson.version : "";
+    const [major, minor, patch] = version.split(/[.+-]/);
+    const napiVersions: Array<number | undefined> = Array.isArray(
+      binary.napi_versions
+    )
+      ? [...binary.napi_versions].sort((a, b) => b - a)
+      : [undefined];
+
+    for (const napiVersion of napiVersions) {
+      const values: Record<string, string | number | undefined> = {
+        name: packageJson.name,
+        version,
+        major,
+        minor,
+        patch,
+        configuration: "Release",
+        module_name: binary.module_name,
+        node_abi: nodeAbi,
+        napi_version: napiVersion,
+        napi_build_version: napiVersion,
+        node_abi_napi: napiVersion ? "napi" : nodeAbi,
+        node_napi_label: napiVersion ? `napi-v${napiVersion}` : nodeAbi,
+        platform,
+        target_platform: platform,
+        arch,
+        target_arch: arch,
+        // node-pre-gyp only tells glibc and musl apart on Linux
+        libc: platform === "linux" ? (buildTarget.libc ?? "glibc") : "unknown",
+      };
+      const modulePath = binary.module_path.replace(
+        /\{(\w+)\}/g,
+        (_match: string, key: string) => String(values[key] ?? "")
+      );
+      const nodeFilePath = path.join(
+        path.dirname(packageJsonPath),
+        modulePath,
+        `${binary.module_name}.node`
+      );
+
+      if (!nodeFilePath.includes(NODE_ABI_PLACEHOLDER)) {
+        tried.push(nodeFilePath);
+        if (fs.existsSync(nodeFilePath)) {
+          return nodeFilePath;
+        }
+        continue;
+      }
+
+      const electronMajor = parseInt(runtime.version.replace(/^v/, ""), 10);
+      tried.push(
+        nodeFilePath
+          .split(NODE_ABI_PLACEHOLDER)
+          .join(`electron-v${electronMajor}.*`)
+      );
+      const electronPath = findNodeAbiPath(
+        nodeFilePath,
+        `electron-v${electronMajor}.`
+      );
+      if (electronPath) {
+        return electronPath;
+      }
+
+      const nodeAbiPath = findNodeAbiPath(nodeFilePath, "node-v");
+      if (nodeAbiPath) {
+        warnOnce(
+          `Only Node.js ABI binaries are available in ${path.dirname(packageJsonPath)} for ${describeTarget(buildTarget)}, bundling ${path.relative(path.dirname(packageJsonPath), nodeAbiPath)} which Electron cannot load`
+        );
+        return nodeAbiPath;
+      }
+    }
+
     return null;
   }
 
@@ -352,7 +1840,8 @@ export default function nativeFilePlugin(
   // Returns the path to the .node file if found, null otherwise
   function resolveNpmPackageNodeFile(
     packageName: string,
-    fromDir: string
+    fromDir: string,
+    tried: string[] = []
   ): string | null {
     // Walk up directories looking for node_modules
     let currentDir = fromDir;
@@ -364,6 +1853,7 @@ export default function nativeFilePlugin(
       if (fs.existsSync(nodeModulesDir)) {
         // Handle scoped packages (@scope/name) and regular packages
         const packageDir = path.join(nodeModulesDir, packageName);
+        tried.push(packageDir);
 
         if (fs.existsSync(packageDir)) {
           // Try to read package.json to find the main entry
@@ -414,22 +1904,33 @@ export default function nativeFilePlugin(
 
   // Helper function to find platform-specific native packages matching a scope pattern
   // Used for template literal requires like require(`@libsql/${target}`)
-  // Returns the path to the .node file for the current platform, or null
+  // Returns the path to the .node file for the target platform, or null
   function findPlatformSpecificNativePackage(
-    scopePrefix: string, // e.g., "@libsql/" or "@scope/prefix-"
-    fromDir: string
+    scopePrefix: string, // e.g., "@libsql/", "@scope/prefix-" or "sharp-"
+    fromDir: string,
+    buildTarget: ResolvedTarget = target,
+    tried: string[] = []
   ): { packageName: string; nodeFilePath: string } | null {
-    // Common platform/arch combinations for native modules
-    const platform = process.platform;
-    const arch = process.arch;
+    // Platform/arch combination of the build target
+    const { platform, arch } = buildTarget;
+    // NAPI-RS names the libc variants gnu/musl (gnueabihf/musleabihf on arm)
+    const libcName = buildTarget.libc === "musl" ? "musl" : "gnu";
 
     // Common naming patterns for platform-specific packages
-    const platformPatterns = [
+    // musl targets try the libc-specific names first, as the plain
+    // platform-arch package is usually the glibc build
+    const genericPatterns = [
       `${platform}-${arch}`, // darwin-arm64, linux-x64
-      `${platform}-${arch}-gnu`, // linux-x64-gnu
-      `${platform}-${arch}-musl`, // linux-x64-musl
       `${platform}${arch === "x64" ? "64" : arch === "ia32" ? "32" : arch}`, // darwin64, linux64
     ];
+    const libcPatterns = [
+      `${platform}-${arch}-${libcName}`, // linux-x64-gnu, linux-x64-musl
+      `${platform}-${arch}-${libcName}eabihf`, // linux-arm-gnueabihf
+    ];
+    const platformPatterns =
+      buildTarget.libc === "musl"
+        ? [...libcPatterns, ...genericPatterns]
+        : [genericPatterns[0], ...libcPatterns, genericPatterns[1]];
 
     // Walk up directories looking for node_modules
     let currentDir = fromDir;
@@ -439,46 +1940,58 @@ export default function nativeFilePlugin(
       const nodeModulesDir = path.join(currentDir, "node_modules");
 
       if (fs.existsSync(nodeModulesDir)) {
-        // Try each platform pattern
-        for (const platformPattern of platformPatterns) {
-          const packageName = `${scopePrefix}${platformPattern}`;
-          const result = resolveNpmPackageNodeFile(packageName, currentDir);
-          if (result) {
-            return { packageName, nodeFilePath: result };
-          }
-        }
-
-        // If scope prefix starts with @, also try scanning the scope directory
-        if (scopePrefix.startsWith("@")) {
-          const scopeName = scopePrefix.split("/")[0]; // @libsql
-          const scopeDir = path.join(nodeModulesDir, scopeName);
+        const packageNames = platformPatterns.map(
+          (platformPattern) => `${scopePrefix}${platformPattern}`
+        );
 
-          if (fs.existsSync(scopeDir)) {
-            try {
-              const packages = fs.readdirSync(scopeDir);
-              for (const pkg of packages) {
-                // Check if this package matches current platform
-                const lowerPkg = pkg.toLowerCase();
-                const lowerPlatform = platform.toLowerCase();
-                const lowerArch = arch.toLowerCase();
+        // Also try scanning the scope directory for scoped prefixes, or the
+        // packages starting with the prefix for unscoped ones
+        const scopeName = scopePrefix.startsWith("@")
+          ? scopePrefix.split("/")[0] // @libsql
+          : null;
+        const scanDir = scopeName
+          ? path.join(nodeModulesDir, scopeName)
+          : nodeModulesDir;
 
-                if (
-                  lowerPkg.includes(lowerPlatform) &&
-                  lowerPkg.includes(lowerArch)
-                ) {
-                  const packageName = `${scopeName}/${pkg}`;
-                  const result = resolveNpmPackageNodeFile(
-                    packageName,
-                    currentDir
-                  );
-                  if (result) {
-                    return { packageName, nodeFilePath: result };
-                  }
-                }
+        if (fs.existsSync(scanDir)) {
+          try {
+            const packages = fs.readdirSync(scanDir);
+            const lowerPlatform = platform.toLowerCase();
+            const lowerArch = arch.toLowerCase();
+            const scanned = packages.filter((pkg) => {
+              // Check if this package matches the build target
+              const lowerPkg = pkg.toLowerCase();
+              return (
+                (scopeName !== null ||
+                  lowerPkg.startsWith(scopePrefix.toLowerCase())) &&
+                lowerPkg.includes(lowerPlatform) &&
+                lowerPkg.includes(lowerArch) &&
+                matchesLibcName(lowerPkg, buildTarget)
+              );
+            });
+            for (const pkg of scanned) {
+              const packageName = scopeName ? `${scopeName}/${pkg}` : pkg;
+              // Packages named after musl (e.g., sharp-linuxmusl-x64) win for musl targets
+              if (buildTarget.libc === "musl" && /musl/i.test(pkg)) {
+                packageNames.unshift(packageName);
+              } else {
+                packageNames.push(packageName);
               }
-            } catch {
-              // Ignore read errors
             }
+          } catch {
+            // Ignore read errors
+          }
+        }
+
+        // Try each candidate package in order
+        for (const packageName of new Set(packageNames)) {
+          const result = resolveNpmPackageNodeFile(
+            packageName,
+            currentDir,
+            tried
+          );
+          if (result) {
+            return { packageName, nodeFilePath: result };
           }
         }
       }
@@ -489,74 +2002,371 @@ export default function nativeFilePlugin(
     return null;
   }
 
+  // Helper function to find the name and version of the package containing a file
+  // Walks up to the nearest package.json with a name (nested ones often only set "type")
+  function readPackageInfo(filePath: string): PackageInfo | null {
+    return readDirectoryPackageInfo(path.dirname(filePath));
+  }
+
+  // Helper function to find the package a directory belongs to, cached per directory
+  function readDirectoryPackageInfo(dir: string): PackageInfo | null {
+    if (dir === path.dirname(dir)) return null;
+    const cached = packageInfoCache.get(dir);
+    if (cached !== undefined) return cached;
+
+    let packageInfo: PackageInfo | null = null;
+    const packageJsonPath = path.join(dir, "package.json");
+    if (fs.existsSync(packageJsonPath)) {
+      try {
+        const packageJson = JSON.parse(
+          fs.readFileSync(packageJsonPath, "utf-8")
+        );
+        if (typeof packageJson.name === "string") {
+          packageInfo = {
+            name: packageJson.name,
+            version:
+              typeof packageJson.version === "string"
+                ? packageJson.version
+                : null,
+            directory: dir,
+            optionalDependencies: Object.keys(
+              packageJson.optionalDependencies ?? {}
+            ),
+          };
+        }
+      } catch {
+        // Ignore JSON parse errors
+      }
+    }
+    packageInfo ??= readDirectoryPackageInfo(path.dirname(dir));
+    packageInfoCache.set(dir, packageInfo);
+    return packageInfo;
+  }
+
+  // Helper function to find the platform-specific optionalDependencies of the package
+  // containing a file that are built for one of the targets but aren't installed,
+  // as happens when the lockfile was created on another platform
+  function findMissingOptionalDependencies(
+    filePath: string,
+    filter: (dependency: string) => boolean
+  ): { packageName: string; dependencies: string[] } | null {
+    const packageInfo = readPackageInfo(filePath);
+    if (!packageInfo) return null;
+
+    const dependencies = packageInfo.optionalDependencies.filter(
+      (dependency) =>
+        filter(dependency) &&
+        (platformTargets ?? [target]).some((buildTarget) =>
+          matchesTargetPackageName(dependency, buildTarget)
+        ) &&
+        !isPackageInstalled(dependency, packageInfo.directory)
+    );
+    return { packageName: packageInfo.name, dependencies };
+  }
+
+  // Helper function to check whether Node.js could find a package from a directory
+  function isPackageInstalled(packageName: string, fromDir: string): boolean {
+    return findInstalledPackage(packageName, fromDir) !== null;
+  }
+
+  // Helper function to find the directory of a package in node_modules, the way
+  // Node.js resolves it from a directory
+  function findInstalledPackage(
+    packageName: string,
+    fromDir: string
+  ): string | null {
+    let dir = fromDir;
+    while (true) {
+      const packageDir = path.join(dir, "node_modules", packageName);
+      if (fs.existsSync(packageDir)) {
+        return packageDir;
+      }
+      if (dir === path.dirname(dir)) return null;
+      dir = path.dirname(dir);
+    }
+  }
+
+  // Helper function to express a path relative to the project root with forward slashes
+  // Used for manifests, which should not depend on the machine the build ran on
+  function toRootRelativePath(filePath: string): string {
+    return path.relative(root, filePath).split(path.sep).join("/");
+  }
+
   // Helper function to extract package name from a file path
   // For paths like /node_modules/@libsql/darwin-arm64/index.node -> libsql-darwin-arm64
   // For paths like /node_modules/sql/native.node -> sql
+  // For pnpm's .pnpm/better-sqlite3@11.0.0/node_modules/better-sqlite3/... -> better-sqlite3
   function extractPackageName(filePath: string): string | null {
-    const nodeModulesMatch = filePath.match(
-      /node_modules[/\\](@[^/\\]+[/\\][^/\\]+|[^/\\]+)/
-    );
-    if (nodeModulesMatch) {
+    const installedPackage = getNodeModulesPackage(filePath);
+    if (installedPackage) {
       // Convert to file-safe format: @scope/package -> scope-package (remove @ and replace slashes)
-      return nodeModulesMatch[1].replace(/^@/, "").replace(/[/\\]/g, "-");
+      return installedPackage.name.replace(/^@/, "").replace(/\//g, "-");
     }
     return null;
   }
 
   // Helper function to generate hashed filename based on format option
   // originalPath is optional - when provided, we can extract package name for prefix
+  // digest is the full content hash, hash its first hashLength characters
   function generateHashedFilename(
     originalFilename: string,
-    hash: string,
-    originalPath?: string
+    digest: string,
+    originalPath?: string,
+    fileTarget: ResolvedTarget = target,
+    content?: Buffer
   ): string {
     const lastDotIndex = originalFilename.lastIndexOf(".");
     const extension =
       lastDotIndex > 0 ? originalFilename.slice(lastDotIndex) : "";
     const baseName =
       lastDotIndex > 0 ? originalFilename.slice(0, lastDotIndex) : originalFilename;
+    const packageName = originalPath ? extractPackageName(originalPath) : null;
+    const format = options.filenameFormat;
+    const hash = digest.slice(0, hashLength);
 
-    if (options.filenameFormat === "hash-only") {
+    if (format === "hash-only") {
       // Hash-only format: HASH.node
       return `${hash.toUpperCase()}${extension}`;
+    } else if (typeof format === "function") {
+      const fileName = format({
+        name: baseName,
+        extname: extension,
+        hash: hash.toUpperCase(),
+        packageName,
+        platform: fileTarget.platform,
+        arch: fileTarget.arch,
+        originalPath: originalPath ?? originalFilename,
+      });
+      // Reported in generateBundle, unlike templates the result can't be checked upfront
+      if (!isInsideOutputDir(fileName)) {
+        invalidFilenames.push({
+          fileName,
+          path: originalPath ?? originalFilename,
+        });
+      }
+      return fileName;
+    } else if (format !== undefined && format !== "preserve") {
+      return renderFilenameTemplate(
+        format,
+        {
+          name: baseName,
+          ext: extension.slice(1),
+          extname: extension,
+          hash: hash.toUpperCase(),
+          package: packageName ?? "",
+          platform: fileTarget.platform,
+          arch: fileTarget.arch,
+        },
+        digest
+      );
+    } else if (format === undefined && assetFileNames) {
+      // Respect Rollup's asset naming, which supports [name], [hash], [hash:N], [ext] and [extname]
+      const template =
+        typeof assetFileNames === "function"
+          ? assetFileNames({
+              type: "asset",
+              name: originalFilename,
+              names: [originalFilename],
+              originalFileName: originalPath ?? null,
+              originalFileNames: originalPath ? [originalPath] : [],
+              source: content ?? Buffer.alloc(0),
+            })
+          : assetFileNames;
+      return renderFilenameTemplate(
+        template,
+        {
+          name: baseName,
+          ext: extension.slice(1),
+          extname: extension,
+          hash: hash.toUpperCase(),
+        },
+        digest
+      );
     } else {
       // Preserve format (default): packagename-filename-HASH.node
       // Extract package name if we have the original path
-      let prefix = "";
-      if (originalPath) {
-        const packageName = extractPackageName(originalPath);
-        if (packageName) {
-          prefix = `${packageName}-`;
-        }
-      }
+      const prefix = packageName ? `${packageName}-` : "";
       return `${prefix}${baseName}-${hash.toUpperCase()}${extension}`;
     }
   }
 
   // Helper to register a native file and return its info
   // Centralizes the hash generation, storage, and reverse mapping logic
-  function registerNativeFile(absolutePath: string): NativeFileInfo {
-    let info = nativeFiles.get(absolutePath);
-    if (!info) {
-      const content = fs.readFileSync(absolutePath);
-      const hash = crypto
-        .createHash("md5")
+  function registerNativeFile(
+    absolutePath: string,
+    importer?: string,
+    fileTarget: ResolvedTarget = target
+  ): NativeFileInfo {
+    // Files are identified by their real path, so a binary reached through
+    // pnpm's store and a workspace or node_modules link is emitted once
+    const realPath = toRealPath(absolutePath);
+    let info = nativeFiles.get(realPath);
+    if (!info && devServer) {
+      // The dev server references the original binary, so there's nothing to hash or emit
+      info = {
+        content: Buffer.alloc(0),
+        hashedFilename: path.basename(realPath),
+        originalPath: realPath,
+        importers: new Set(),
+      };
+      nativeFiles.set(realPath, info);
+    } else if (!info) {
+      const content = fs.readFileSync(realPath);
+      const digest = crypto
+        .createHash(hashAlgorithm)
         .update(content)
-        .digest("hex")
-        .slice(0, 8);
-      const filename = path.basename(absolutePath);
-      const hashedFilename = generateHashedFilename(filename, hash, absolutePath);
+        .digest("hex");
+      const filename = path.basename(realPath);
+      const outputName = generateHashedFilename(
+        filename,
+        digest,
+        realPath,
+        fileTarget,
+        content
+      );
+      const hashedFilename = path.posix.join(nativeDir, outputName);
       info = {
         content,
         hashedFilename,
-        originalPath: absolutePath,
+        originalPath: realPath,
+        importers: new Set(),
       };
-      nativeFiles.set(absolutePath, info);
-      hashedFilenameToPath.set(hashedFilename, absolutePath);
+      nativeFiles.set(realPath, info);
+
+      // Identical copies (e.g., the same package installed twice) can share a name,
+      // different binaries can't: the second would overwrite the first
+      const existingPath = hashedFilenameToPath.get(hashedFilename);
+      if (existingPath === undefined) {
+        hashedFilenameToPath.set(hashedFilename, realPath);
+      } else if (!nativeFiles.get(existingPath)!.content.equals(content)) {
+        filenameCollisions.push({
+          fileName: hashedFilename,
+          paths: [existingPath, realPath],
+        });
+      }
+    }
+    if (importer) {
+      info.importers.add(importer);
     }
     return info;
   }
 
+  // Helper to get the specifier generated code uses to load a registered native file
+  // Builds reference the emitted copy next to the bundle, the dev server the original file
+  function nativeFileSpecifier(info: NativeFileInfo): string {
+    return devServer ? info.originalPath : `./${info.hashedFilename}`;
+  }
+
+  // Helper to run a resolver for the build target, or for every entry of `platforms`
+  // When the platforms resolve to different files, they are recorded as variants of
+  // the first match so the loader can pick the right one at runtime. Platforms
+  // that resolve to nothing are added to `missing`
+  function resolveForPlatforms(
+    importer: string,
+    resolver: (buildTarget: ResolvedTarget) => string | null,
+    missing: ResolvedTarget[] = []
+  ): string | null {
+    // The dev server only ever runs on the host
+    if (!platformTargets || devServer) return resolver(target);
+
+    const variants: NativeVariant[] = [];
+    for (const platformTarget of platformTargets) {
+      const resolved = resolver(platformTarget);
+      if (resolved) {
+        variants.push({
+          target: platformTarget,
+          info: registerNativeFile(resolved, importer, platformTarget),
+        });
+      } else {
+        missing.push(platformTarget);
+      }
+    }
+    if (variants.length === 0) return null;
+
+    const primary = variants[0].info;
+    if (new Set(variants.map((variant) => variant.info)).size > 1) {
+      primary.variants = variants;
+    }
+    return primary.originalPath;
+  }
+
+  // Helper to generate an expression that evaluates to the relative path of the
+  // variant matching the running platform, arch and libc
+  // Variants for a libc come first, so 'linux-x64-musl' wins over 'linux-x64'
+  // (resolved to the glibc binary) on musl systems
+  function generateVariantSelector(variants: NativeVariant[]): string {
+    const ordered = [
+      ...variants.filter((variant) => variant.target.libc),
+      ...variants.filter((variant) => !variant.target.libc),
+    ];
+    const table = ordered.map(({ target: variantTarget, info }) => [
+      variantTarget.platform,
+      variantTarget.arch,
+      variantTarget.libc ?? null,
+      nativeFileSpecifier(info),
+    ]);
+    // Only pay for libc detection when a variant actually depends on it
+    const libcDetection = variants.some((variant) => variant.target.libc)
+      ? `let libc = null;
+  if (process.platform === 'linux') {
+    try {
+      libc = process.report.getReport().header.glibcVersionRuntime ? 'glibc' : 'musl';
+    } catch {
+      libc = 'glibc';
+    }
+  }`
+      : "const libc = null;";
+
+    return `(() => {
+  const variants = ${JSON.stringify(table)};
+  ${libcDetection}
+  const match = variants.find(([platform, arch, variantLibc]) =>
+    platform === process.platform && arch === process.arch && (!variantLibc || variantLibc === libc));
+  if (!match) {
+    throw new Error('No native module bundled for ' + process.platform + '-' + process.arch + (libc ? '-' + libc : ''));
+  }
+  return match[3];
+})()`;
+  }
+
+  // Helper to resolve bare specifiers through Vite/Rollup, which applies package
+  // exports and conditions, aliases, resolve.dedupe and Yarn PnP, and cache the
+  // native files they lead to
+  async function resolveBareSpecifiers(
+    context: { resolve: Rollup.PluginContext["resolve"] },
+    specifiers: Iterable<string>,
+    importer: string
+  ): Promise<void> {
+    const importerDir = path.dirname(toRealPath(importer));
+    await Promise.all(
+      [...specifiers].map(async (specifier) => {
+        let nativeFilePath: string | null = null;
+        try {
+          const resolved = await context.resolve(specifier, importer, {
+            skipSelf: true,
+            // Resolve with the conditions of require(), like the CommonJS plugin
+            custom: { "node-resolve": { isRequire: true } },
+          });
+          const resolvedPath = resolved?.id.split("?")[0];
+          if (
+            resolvedPath &&
+            path.isAbsolute(resolvedPath) &&
+            resolvedPath.endsWith(".node") &&
+            fs.existsSync(resolvedPath)
+          ) {
+            nativeFilePath = resolvedPath;
+          }
+        } catch {
+          // Fall back to walking node_modules
+        }
+        resolvedBareSpecifiers.set(
+          `${importerDir}\0${specifier}`,
+          nativeFilePath
+        );
+      })
+    );
+  }
+
   // Helper to detect module type using Rollup context if available, with fallback
   // Centralizes the try/catch pattern used in multiple places
   function detectModuleTypeWithContext(
@@ -578,18 +2388,79 @@ export default function nativeFilePlugin(
     return detectModuleType(fileId, code);
   }
 
-  return {
+  const plugin: Plugin = {
+    buildEnd() {
+      // Unresolved loads are left as is and only fail once the bundle runs
+      const loads = [...unresolvedLoads.values()].flat();
+      if (loads.length > 0) {
+        const details = loads
+          .map((load) => {
+            const tried =
+              load.candidates.length > 0
+                ? load.candidates
+                    .map(
+                      (candidate) => `\n      ${toRootRelativePath(candidate)}`
+                    )
+                    .join("")
+                : " nothing, the argument could not be evaluated statically";
+            return `  ${toRootRelativePath(load.file)}:${load.line}:${load.column} (${describeLoad(load)})\n    tried:${tried}`;
+          })
+          .join("\n");
+        warnOnce(
+          `Could not resolve ${loads.length} native module load(s) for ${describeTarget(target)}, they are left as is and will fail at runtime:\n${details}`
+        );
+      }
+
+      if (missingOptionalDependencies.size > 0) {
+        const details = [...missingOptionalDependencies]
+          .map(
+            ([packageName, dependencies]) =>
+              `  ${packageName}: ${[...dependencies].join(", ")}`
+          )
+          .join("\n");
+        warnOnce(
+          `Optional dependencies with native binaries for the build target are not installed:\n${details}\n` +
+            `Install them for the target, e.g., with npm install --os=${target.platform} --cpu=${target.arch}.`
+        );
+      }
+    },
+
     configResolved(config) {
       command = config.command;
+      enabled = options.forced ?? true;
+      devServer = command === "serve" && options.forced === undefined;
+      root = config.root ?? root;
+      viteManifest = config.build?.manifest ?? false;
+      logger = config.logger;
+      moduleFilter = createFilter(options.include, options.exclude, {
+        resolve: root,
+      });
 
       // Detect output format from Vite config
       // Priority: rollupOptions.output.format > lib.formats > default (es)
       //
-      // LIMITATION: For multi-format builds (e.g., lib.formats: ['es', 'cjs']), this
-      // only uses the first format. Rollup's load hook is called once per module, not
-      // per output format. In practice, the ESM pattern (createRequire + import.meta.url)
-      // works correctly in both ESM and CJS outputs because Rollup handles the conversion.
+      // Rollup's load hook is called once per module, not per output format. For
+      // multi-format builds (e.g., lib.formats: ['es', 'cjs']) the loader uses a
+      // placeholder that renderChunk specializes for each output
       const rollupOutput = config.build?.rollupOptions?.output;
+      const libFormats =
+        typeof config.build?.lib === "object"
+          ? config.build.lib.formats
+          : undefined;
+      const outputFormats = Array.isArray(rollupOutput)
+        ? rollupOutput.map((output) => output.format)
+        : rollupOutput?.format
+          ? [rollupOutput.format]
+          : (libFormats ?? []);
+      multiFormat =
+        new Set(
+          outputFormats.map((format) =>
+            format === "cjs" || format === "commonjs" ? "cjs" : "es"
+          )
+        ).size > 1;
+      assetFileNames = (
+        Array.isArray(rollupOutput) ? rollupOutput[0] : rollupOutput
+      )?.assetFileNames as typeof assetFileNames;
       if (rollupOutput) {
         // rollupOptions.output can be an object or array of objects
         const format = Array.isArray(rollupOutput)
@@ -613,14 +2484,63 @@ export default function nativeFilePlugin(
     },
 
     generateBundle() {
+      // The dev server loads native files in place
+      if (devServer) return;
+
+      if (filenameCollisions.length > 0) {
+        const details = filenameCollisions
+          .map(
+            ({ fileName, paths }) =>
+              `  ${fileName}: ${paths.map(toRootRelativePath).join(" and ")}`
+          )
+          .join("\n");
+        this.error(
+          `Different native files map to the same output file name:\n${details}\n` +
+            "Increase hashLength, use a stronger hashAlgorithm or include [package] in filenameFormat."
+        );
+      }
+
+      if (invalidFilenames.length > 0) {
+        const details = invalidFilenames
+          .map(
+            ({ fileName, path: filePath }) =>
+              `  ${fileName}: ${toRootRelativePath(filePath)}`
+          )
+          .join("\n");
+        this.error(
+          `filenameFormat must name files inside the output directory:\n${details}`
+        );
+      }
+
       // Emit each .node file as an asset
+      // With build.manifest enabled, name and originalFileName make Vite list them too
       nativeFiles.forEach((info) => {
         this.emitFile({
           fileName: info.hashedFilename,
           source: info.content,
           type: "asset",
+          ...(viteManifest && {
+            name: path.basename(info.originalPath),
+            originalFileName: toRootRelativePath(info.originalPath),
+          }),
         });
       });
+
+      if (options.manifest) {
+        const manifest: Record<string, NativeManifestEntry> = {};
+        nativeFiles.forEach((info) => {
+          manifest[info.hashedFilename] = createManifestEntry(info);
+        });
+
+        this.emitFile({
+          fileName:
+            typeof options.manifest === "string"
+              ? options.manifest
+              : "native-manifest.json",
+          source: JSON.stringify(manifest, null, 2),
+          type: "asset",
+        });
+      }
     },
 
     load(id) {
@@ -637,26 +2557,108 @@ export default function nativeFilePlugin(
       //    module format because both require() and top-level await are present"
       // 2. Using import.meta.url in a CJS output doesn't work
       // 3. The output format is what matters for the final bundled code
-      if (outputFormat === "es") {
+      // With multiple platforms, the loader picks the matching variant at runtime
+      const specifier = info.variants
+        ? generateVariantSelector(info.variants)
+        : JSON.stringify(nativeFileSpecifier(info));
+
+      // Outputs of different formats share this module, so require is a
+      // placeholder that renderChunk replaces for each output
+      if (multiFormat && !devServer) {
+        return `
+const nativeModule = ${NATIVE_REQUIRE_PLACEHOLDER}(${specifier});
+export default nativeModule;
+`;
+      }
+
+      // The dev server evaluates modules as ESM, regardless of the build output format
+      if (outputFormat === "es" || devServer) {
         return `
 import { createRequire } from 'node:module';
 const __require = createRequire(import.meta.url);
-const nativeModule = __require('./${info.hashedFilename}');
+const nativeModule = __require(${specifier});
 export default nativeModule;
 `;
       } else {
         return `
-module.exports = require('./${info.hashedFilename}');
+module.exports = require(${specifier});
 `;
       }
     },
 
     name,
 
+    renderChunk(code, chunk, outputOptions) {
+      if (devServer || nativeFiles.size === 0) return null;
+      const replacements: Replacement[] = [];
+
+      // Specialize the loader placeholder for the format of this output
+      if (multiFormat && code.includes(NATIVE_REQUIRE_PLACEHOLDER)) {
+        const isCommonJS =
+          outputOptions.format === "cjs" ||
+          (outputOptions.format as string) === "commonjs";
+        const requireName = isCommonJS ? "require" : "__nativeRequire";
+        for (const match of code.matchAll(
+          new RegExp(NATIVE_REQUIRE_PLACEHOLDER, "g")
+        )) {
+          replacements.push({
+            start: match.index!,
+            end: match.index! + match[0].length,
+            value: requireName,
+          });
+        }
+        if (!isCommonJS) {
+          // Imports are hoisted, so the top of the chunk works (after a shebang)
+          const shebang = /^#!.*\n/.exec(code);
+          const position = shebang ? shebang[0].length : 0;
+          replacements.push({
+            start: position,
+            end: position,
+            value:
+              "import { createRequire as __nativeCreateRequire } from 'node:module';\n" +
+              "const __nativeRequire = __nativeCreateRequire(import.meta.url);\n",
+          });
+        }
+      }
+
+      // References to native files are generated relative to the output root.
+      // Chunks in subdirectories (chunkFileNames, preserveModules, nested SSR
+      // output) need them relative to their own directory instead
+      const chunkDir = path.posix.dirname(chunk.fileName);
+      if (chunkDir !== ".") {
+        const emittedNames = new Set(
+          [...nativeFiles.values()].map((info) => info.hashedFilename)
+        );
+        for (const hashedFilename of emittedNames) {
+          // Matches "./name" from requires and loaders, and 'name' from join(__dirname, ...)
+          const escaped = hashedFilename.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+          const literalPattern = new RegExp(
+            `(["'\`])(\\./)?${escaped}\\1`,
+            "g"
+          );
+          const relativePath = path.posix.relative(chunkDir, hashedFilename);
+
+          for (const match of code.matchAll(literalPattern)) {
+            const [literal, quote, dotSlash] = match;
+            const specifier =
+              dotSlash && !relativePath.startsWith("../")
+                ? `./${relativePath}`
+                : relativePath;
+            replacements.push({
+              start: match.index!,
+              end: match.index! + literal.length,
+              value: `${quote}${specifier}${quote}`,
+            });
+          }
+        }
+      }
+
+      if (replacements.length === 0) return null;
+      return applyReplacements(code, replacements, chunk.fileName);
+    },
+
     async resolveId(source, importer) {
       // Check if enabled
-      const enabled = options.forced ?? command === "build";
-
       if (!enabled) return null;
       if (!importer) return null;
 
@@ -670,8 +2672,11 @@ module.exports = require('./${info.hashedFilename}');
       const basename = path.basename(normalizedSource);
 
       // Check if this matches a hashed filename we've generated
-      if (hashedFilenameToPath.has(basename)) {
-        const originalPath = hashedFilenameToPath.get(basename)!;
+      // Templated names may contain directories, so try the full path first
+      const originalPath =
+        hashedFilenameToPath.get(normalizedSource) ??
+        hashedFilenameToPath.get(basename);
+      if (originalPath) {
         const virtualId = `\0native:${originalPath}`;
 
         // Use syntheticNamedExports to enable named import/destructuring patterns
@@ -687,6 +2692,9 @@ module.exports = require('./${info.hashedFilename}');
         };
       }
 
+      // Leave imports of modules filtered out by include/exclude and skipped packages
+      if (isModuleFiltered(importer)) return null;
+
       // Check if this file should be processed
       if (!shouldProcessFile(source, importer)) return null;
 
@@ -697,19 +2705,20 @@ module.exports = require('./${info.hashedFilename}');
       if (!fs.existsSync(resolved)) return null;
 
       // Register the native file (generates hash, stores mapping)
-      registerNativeFile(resolved);
+      const info = registerNativeFile(resolved, importer);
 
       // Return virtual module ID
-      const virtualId = `\0native:${resolved}`;
+      const virtualId = `\0native:${info.originalPath}`;
       return virtualId;
     },
 
     transform(code, id) {
       // Check if enabled
-      const enabled = options.forced ?? command === "build";
-
       if (!enabled) return null;
 
+      // Skip modules filtered out by include/exclude and skipped packages
+      if (isModuleFiltered(id)) return null;
+
       // Only process files that mention .node, node-gyp-build, bindings, or native platform packages
       // For bindings, we check for the exact package name patterns to avoid false positives
       const hasBindingsPackage =
@@ -720,21 +2729,39 @@ module.exports = require('./${info.hashedFilename}');
 
       // Check for template literal requires that might be platform-specific native packages
       // These patterns are used by NAPI-RS/neon-rs for platform-specific native modules
-      // e.g., require(`@libsql/${target}`) or require(`@scope/${platform}`)
-      const hasTemplateLiteralNativePackage =
-        /require\s*\(\s*`@[a-z0-9-]+\//.test(code);
+      // e.g., require(`@libsql/${target}`), require(`sharp-${platform}`) or
+      // require(`./pkg.${triple}.node`)
+      const hasTemplateLiteralNativePackage = /require\s*\(\s*`[^`$]+\$\{/.test(
+        code
+      );
 
       if (
         !code.includes(".node") &&
         !code.includes("node-gyp-build") &&
+        !code.includes("node-pre-gyp") &&
         !hasBindingsPackage &&
-        !hasTemplateLiteralNativePackage
+        !hasTemplateLiteralNativePackage &&
+        // Platform checks are folded even without native loads in the module
+        !(
+          options.foldPlatformChecks &&
+          /process\.(?:platform|arch)\b|\}\s*=\s*process\b/.test(code)
+        ) &&
+        // additionalNativeFiles may be named without '.node' (e.g., lib/addon.so)
+        !options.additionalNativeFiles?.some((pkgConfig) =>
+          findConfiguredPackageDir(pkgConfig.package, id)
+        )
       )
         return null;
 
       let modified = false;
-      const replacements: Array<{ start: number; end: number; value: string }> =
-        [];
+      const replacements: Replacement[] = [];
+      // Node.js resolves dependencies from the real location of a module, which
+      // differs from the linked one in pnpm's store and for workspace links
+      const realId = toRealPath(id);
+      // Diagnostics are recollected whenever a module is transformed again
+      unresolvedLoads.delete(id);
+      // Set before raising a strict mode error, so the catch below rethrows it
+      let strictFailure = false;
 
       try {
         // Parse the code using Rollup's built-in parser
@@ -745,16 +2772,42 @@ module.exports = require('./${info.hashedFilename}');
         // Track variables for the createRequire pattern
         let createRequireLocalName: string | null = null; // The actual local name of createRequire import (e.g., "createRequire" or "createRequire$1")
         const customRequireVars = new Set<string>(); // Variables that are custom require functions
-        const nodeGypBuildVars = new Set<string>(); // Variables that hold node-gyp-build
+        const nodeGypBuildVars = new Map<string, string>(); // varName -> node-gyp-build package it holds
 
         // Track node-gyp-build import/require statements for potential removal
         const nodeGypBuildImportNodes: BaseASTNode[] = []; // ImportDeclaration or VariableDeclarator nodes to remove if unused
-        let nodeGypBuildUsageCount = 0; // Count of node-gyp-build calls we've replaced
 
         // Track bindings package variables and imports
         const bindingsVars = new Set<string>(); // Variables that hold the bindings function
         const bindingsImportNodes: BaseASTNode[] = []; // ImportDeclaration or VariableDeclarator nodes to remove if unused
-        let bindingsUsageCount = 0; // Count of bindings calls we've replaced
+
+        // Track identifier references and the declarations of declarators, so
+        // loader declarations are only removed once every reference is replaced
+        const identifierReferences = new Map<string, number[]>(); // name -> start of each reference
+        const variableDeclarations = new Map<BaseASTNode, BaseASTNode>(); // declarator -> VariableDeclaration
+
+        // Track node-pre-gyp variables and calls that return the path of a binary
+        // (node-pre-gyp's binary.find(), node-gyp-build's load.path() and load.resolve())
+        const nodePreGypVars = new Set<string>(); // Variables that hold node-pre-gyp
+        const nodePreGypImportNodes: BaseASTNode[] = []; // ImportDeclaration or VariableDeclarator nodes to remove if unused
+        const nativePathVars = new Map<string, string>(); // varName -> resolved .node file
+        const nativePathCallResults = new Map<BaseASTNode, string | null>(); // path call -> resolved .node file
+
+        // Bare specifiers that still have to go through Vite's resolver
+        const pendingSpecifiers = new Set<string>();
+
+        // Track local binaries and platform packages that didn't resolve, a NAPI-RS
+        // loader only needs the package when no local binary exists for the target
+        const localNodeFileNames: string[] = []; // file names of local .node files that exist
+        const unresolvedPackageRequires: Array<{
+          node: CallExpressionNode;
+          packageName: string;
+          tried: string[];
+        }> = [];
+
+        // Scopes of the names declared in the module, collected on first use to find
+        // variables destructured from process, e.g., const { platform, arch } = process
+        let bindingScopes: Map<string, BindingScope[]> | undefined;
 
         // Track variables that hold directory paths
         const directoryVars = new Map<string, string>(); // varName -> resolved directory path
@@ -918,6 +2971,19 @@ module.exports = require('./${info.hashedFilename}');
 
         // Walk the AST to find CallExpression nodes
         const walk = (node: BaseASTNode): void => {
+          if (isIdentifier(node)) {
+            const references = identifierReferences.get(node.name) ?? [];
+            references.push(node.start!);
+            identifierReferences.set(node.name, references);
+          } else if (node.type === "VariableDeclaration") {
+            const { declarations } = node as BaseASTNode & {
+              declarations: BaseASTNode[];
+            };
+            for (const declarator of declarations) {
+              variableDeclarations.set(declarator, node);
+            }
+          }
+
           // Track import declarations for createRequire from 'module'
           if (isImportDeclaration(node)) {
             // Any ImportDeclaration means this is an ES6 module
@@ -981,7 +3047,7 @@ module.exports = require('./${info.hashedFilename}');
             }
 
             // Track node-gyp-build imports
-            if (source === "node-gyp-build") {
+            if (isNodeGypBuildPackage(source)) {
               // Track the import statement node for potential removal
               nodeGypBuildImportNodes.push(node);
               for (const specifier of node.specifiers) {
@@ -989,7 +3055,7 @@ module.exports = require('./${info.hashedFilename}');
                   isImportDefaultSpecifier(specifier) &&
                   isIdentifier(specifier.local)
                 ) {
-                  nodeGypBuildVars.add(specifier.local.name);
+                  nodeGypBuildVars.set(specifier.local.name, source);
                 }
               }
             }
@@ -1007,6 +3073,19 @@ module.exports = require('./${info.hashedFilename}');
                 }
               }
             }
+
+            // Track node-pre-gyp imports
+            if (isNodePreGypPackage(source)) {
+              nodePreGypImportNodes.push(node);
+              for (const specifier of node.specifiers) {
+                if (
+                  isImportDefaultSpecifier(specifier) &&
+                  isIdentifier(specifier.local)
+                ) {
+                  nodePreGypVars.add(specifier.local.name);
+                }
+              }
+            }
           }
 
           // Track variable declarations
@@ -1017,7 +3096,7 @@ module.exports = require('./${info.hashedFilename}');
               // Track directory variable assignments
               // Pattern 1: var t = __dirname
               if (isIdentifier(node.init) && node.init.name === "__dirname") {
-                directoryVars.set(varName, path.dirname(id));
+                directoryVars.set(varName, path.dirname(realId));
               }
               // Pattern 2: var t = otherDirVar (copy directory from another variable)
               else if (
@@ -1028,7 +3107,7 @@ module.exports = require('./${info.hashedFilename}');
               }
               // Pattern 3: var t = path.dirname(fileURLToPath(import.meta.url)) or path.resolve/join
               else if (isCallExpression(node.init)) {
-                const resolvedDir = resolveDirectoryFromCall(node.init, id);
+                const resolvedDir = resolveDirectoryFromCall(node.init, realId);
                 if (resolvedDir) {
                   directoryVars.set(varName, resolvedDir);
                 }
@@ -1051,24 +3130,44 @@ module.exports = require('./${info.hashedFilename}');
                     customRequireVars.has(calleeNode.name)) &&
                   node.init.arguments.length === 1 &&
                   isLiteral(node.init.arguments[0]) &&
-                  node.init.arguments[0].value === "node-gyp-build"
+                  isNodeGypBuildPackage(node.init.arguments[0].value)
                 ) {
                   // Track the variable declarator node for potential removal
                   nodeGypBuildImportNodes.push(node);
-                  nodeGypBuildVars.add(varName);
+                  nodeGypBuildVars.set(varName, node.init.arguments[0].value);
+                }
+                // Check if it's require('bindings') or customRequire('bindings')
+                else if (
+                  isIdentifier(calleeNode) &&
+                  (calleeNode.name === "require" ||
+                    customRequireVars.has(calleeNode.name)) &&
+                  node.init.arguments.length === 1 &&
+                  isLiteral(node.init.arguments[0]) &&
+                  node.init.arguments[0].value === "bindings"
+                ) {
+                  // Track the variable declarator node for potential removal
+                  bindingsImportNodes.push(node);
+                  bindingsVars.add(varName);
                 }
-                // Check if it's require('bindings') or customRequire('bindings')
+                // Check if it's require('@mapbox/node-pre-gyp') or customRequire('@mapbox/node-pre-gyp')
                 else if (
                   isIdentifier(calleeNode) &&
                   (calleeNode.name === "require" ||
                     customRequireVars.has(calleeNode.name)) &&
                   node.init.arguments.length === 1 &&
                   isLiteral(node.init.arguments[0]) &&
-                  node.init.arguments[0].value === "bindings"
+                  isNodePreGypPackage(node.init.arguments[0].value)
                 ) {
                   // Track the variable declarator node for potential removal
-                  bindingsImportNodes.push(node);
-                  bindingsVars.add(varName);
+                  nodePreGypImportNodes.push(node);
+                  nodePreGypVars.add(varName);
+                }
+                // Check if it's binary.find(...) or load.path(...), which return the path of the binary
+                else if (isNativePathCall(node.init)) {
+                  const nodeFilePath = resolveNativePathCall(node.init);
+                  if (nodeFilePath) {
+                    nativePathVars.set(varName, nodeFilePath);
+                  }
                 }
               }
             }
@@ -1085,17 +3184,28 @@ module.exports = require('./${info.hashedFilename}');
                 customRequireVars.has(calleeNode.callee.name)) &&
               calleeNode.arguments.length === 1 &&
               isLiteral(calleeNode.arguments[0]) &&
-              calleeNode.arguments[0].value === "node-gyp-build"
+              isNodeGypBuildPackage(calleeNode.arguments[0].value)
             ) {
               // This is require('node-gyp-build')(...) or customRequire('node-gyp-build')(...)
+              const loader = calleeNode.arguments[0].value;
               const dirArg = node.arguments[0];
-              const directory = resolveDirArgument(dirArg, id);
-
-              if (directory) {
-                const nodeFilePath = resolveNodeGypBuild(directory);
-                if (nodeFilePath) {
-                  processNodeFile(nodeFilePath, node);
-                }
+              const directory = resolveDirArgument(dirArg, realId);
+              const tried: string[] = [];
+              const nodeFilePath = directory
+                ? resolveLoadForPlatforms(node, loader, tried, (buildTarget) =>
+                    resolveNodeGypBuildLoader(
+                      loader,
+                      directory,
+                      buildTarget,
+                      tried
+                    )
+                  )
+                : null;
+
+              if (nodeFilePath) {
+                processNodeFile(nodeFilePath, node);
+              } else {
+                recordUnresolvedLoad(node, loader, tried);
               }
             }
             // Pattern 2: Variable call nodeGypBuildVar(__dirname)
@@ -1103,14 +3213,25 @@ module.exports = require('./${info.hashedFilename}');
               isIdentifier(calleeNode) &&
               nodeGypBuildVars.has(calleeNode.name)
             ) {
+              const loader = nodeGypBuildVars.get(calleeNode.name)!;
               const dirArg = node.arguments[0];
-              const directory = resolveDirArgument(dirArg, id);
-
-              if (directory) {
-                const nodeFilePath = resolveNodeGypBuild(directory);
-                if (nodeFilePath) {
-                  processNodeFile(nodeFilePath, node);
-                }
+              const directory = resolveDirArgument(dirArg, realId);
+              const tried: string[] = [];
+              const nodeFilePath = directory
+                ? resolveLoadForPlatforms(node, loader, tried, (buildTarget) =>
+                    resolveNodeGypBuildLoader(
+                      loader,
+                      directory,
+                      buildTarget,
+                      tried
+                    )
+                  )
+                : null;
+
+              if (nodeFilePath) {
+                processNodeFile(nodeFilePath, node);
+              } else {
+                recordUnresolvedLoad(node, loader, tried);
               }
             }
             // Pattern 3: bindings package - direct call require('bindings')('addon')
@@ -1125,38 +3246,31 @@ module.exports = require('./${info.hashedFilename}');
               node.arguments.length === 1
             ) {
               // This is require('bindings')('addon') or require('bindings')({ bindings: 'addon' })
-              const arg = node.arguments[0];
-              let moduleName: string | null = null;
-
-              // Check if argument is a string literal
-              if (isLiteral(arg) && typeof arg.value === "string") {
-                moduleName = arg.value;
-              }
-              // Check if argument is an object with bindings property
-              else if (arg.type === "ObjectExpression" && "properties" in arg) {
-                const properties = arg.properties as Array<{
-                  type: string;
-                  key?: { name: string };
-                  value: BaseASTNode;
-                }>;
-                const bindingsProp = properties.find(
-                  (prop) =>
-                    prop.type === "Property" &&
-                    prop.key?.name === "bindings" &&
-                    isLiteral(prop.value)
-                );
-                if (bindingsProp && isLiteral(bindingsProp.value)) {
-                  moduleName = bindingsProp.value.value as string;
-                }
-              }
+              const bindingsOptions = evaluateBindingsArgument(
+                node.arguments[0]
+              );
 
-              if (moduleName) {
-                const directory = path.dirname(id);
-                const nodeFilePath = resolveBindings(directory, moduleName);
-                if (nodeFilePath) {
-                  processNodeFile(nodeFilePath, node);
-                  bindingsUsageCount++;
-                }
+              const directory = path.dirname(realId);
+              const tried: string[] = [];
+              const nodeFilePath = bindingsOptions
+                ? resolveLoadForPlatforms(
+                    node,
+                    "bindings",
+                    tried,
+                    (buildTarget) =>
+                      resolveBindings(
+                        directory,
+                        bindingsOptions,
+                        buildTarget,
+                        tried
+                      )
+                  )
+                : null;
+
+              if (nodeFilePath) {
+                processNodeFile(nodeFilePath, node);
+              } else {
+                recordUnresolvedLoad(node, "bindings", tried);
               }
             }
             // Pattern 4: bindings package - variable call bindingsVar('addon')
@@ -1165,38 +3279,31 @@ module.exports = require('./${info.hashedFilename}');
               bindingsVars.has(calleeNode.name) &&
               node.arguments.length === 1
             ) {
-              const arg = node.arguments[0];
-              let moduleName: string | null = null;
-
-              // Check if argument is a string literal
-              if (isLiteral(arg) && typeof arg.value === "string") {
-                moduleName = arg.value;
-              }
-              // Check if argument is an object with bindings property
-              else if (arg.type === "ObjectExpression" && "properties" in arg) {
-                const properties = arg.properties as Array<{
-                  type: string;
-                  key?: { name: string };
-                  value: BaseASTNode;
-                }>;
-                const bindingsProp = properties.find(
-                  (prop) =>
-                    prop.type === "Property" &&
-                    prop.key?.name === "bindings" &&
-                    isLiteral(prop.value)
-                );
-                if (bindingsProp && isLiteral(bindingsProp.value)) {
-                  moduleName = bindingsProp.value.value as string;
-                }
-              }
+              const bindingsOptions = evaluateBindingsArgument(
+                node.arguments[0]
+              );
 
-              if (moduleName) {
-                const directory = path.dirname(id);
-                const nodeFilePath = resolveBindings(directory, moduleName);
-                if (nodeFilePath) {
-                  processNodeFile(nodeFilePath, node);
-                  bindingsUsageCount++;
-                }
+              const directory = path.dirname(realId);
+              const tried: string[] = [];
+              const nodeFilePath = bindingsOptions
+                ? resolveLoadForPlatforms(
+                    node,
+                    "bindings",
+                    tried,
+                    (buildTarget) =>
+                      resolveBindings(
+                        directory,
+                        bindingsOptions,
+                        buildTarget,
+                        tried
+                      )
+                  )
+                : null;
+
+              if (nodeFilePath) {
+                processNodeFile(nodeFilePath, node);
+              } else {
+                recordUnresolvedLoad(node, "bindings", tried);
               }
             }
             // Pattern 5: Regular require('./addon.node') calls
@@ -1216,11 +3323,12 @@ module.exports = require('./${info.hashedFilename}');
                 const absolutePath = path.resolve(path.dirname(id), relativePath);
 
                 if (fs.existsSync(absolutePath)) {
-                  const info = registerNativeFile(absolutePath);
+                  const info = registerNativeFile(absolutePath, id);
+                  localNodeFileNames.push(path.basename(absolutePath));
                   replacements.push({
                     start: literalNode.start,
                     end: literalNode.end,
-                    value: `"./${info.hashedFilename}"`,
+                    value: JSON.stringify(nativeFileSpecifier(info)),
                   });
                   modified = true;
                 }
@@ -1247,7 +3355,7 @@ module.exports = require('./${info.hashedFilename}');
               let baseDir: string | null = null;
 
               if (isIdentifier(firstArg) && firstArg.name === "__dirname") {
-                baseDir = path.dirname(id);
+                baseDir = path.dirname(realId);
               } else if (
                 isIdentifier(firstArg) &&
                 directoryVars.has(firstArg.name)
@@ -1274,12 +3382,23 @@ module.exports = require('./${info.hashedFilename}');
                   const absolutePath = path.join(...parts);
 
                   if (fs.existsSync(absolutePath)) {
-                    const info = registerNativeFile(absolutePath);
-                    replacements.push({
-                      start: lastArg.start,
-                      end: lastArg.end,
-                      value: `'${info.hashedFilename}'`,
-                    });
+                    const info = registerNativeFile(absolutePath, id);
+                    localNodeFileNames.push(path.basename(absolutePath));
+                    // The dev server has no emitted copy next to __dirname, so the
+                    // whole join() becomes the absolute path of the original file
+                    replacements.push(
+                      devServer
+                        ? {
+                            start: node.start,
+                            end: node.end,
+                            value: JSON.stringify(info.originalPath),
+                          }
+                        : {
+                            start: lastArg.start,
+                            end: lastArg.end,
+                            value: JSON.stringify(info.hashedFilename),
+                          }
+                    );
                     modified = true;
                   }
                 }
@@ -1306,28 +3425,55 @@ module.exports = require('./${info.hashedFilename}');
                 !packageName.startsWith("/") &&
                 !packageName.startsWith("node:")
               ) {
-                // Try to resolve the package and find a .node file
-                const nodeFilePath = resolveNpmPackageNodeFile(
-                  packageName,
-                  path.dirname(id)
+                // Vite's resolver comes first, but it is asynchronous: specifiers
+                // it hasn't seen are resolved after the walk, then the module is
+                // transformed again
+                const resolvedByVite = resolvedBareSpecifiers.get(
+                  `${path.dirname(realId)}\0${packageName}`
                 );
-
-                if (nodeFilePath) {
-                  const info = registerNativeFile(nodeFilePath);
-                  const literalNode = node.arguments[0] as LiteralNode;
-                  replacements.push({
-                    start: literalNode.start,
-                    end: literalNode.end,
-                    value: `"./${info.hashedFilename}"`,
-                  });
-                  modified = true;
+                if (
+                  resolvedByVite === undefined &&
+                  typeof this.resolve === "function" &&
+                  !builtinModules.includes(packageName)
+                ) {
+                  pendingSpecifiers.add(packageName);
+                } else {
+                  // Otherwise walk node_modules for the package and find a .node file
+                  const tried: string[] = [];
+                  const nodeFilePath =
+                    resolvedByVite ??
+                    resolveNpmPackageNodeFile(
+                      packageName,
+                      path.dirname(realId),
+                      tried
+                    );
+
+                  if (nodeFilePath) {
+                    const info = registerNativeFile(nodeFilePath, id);
+                    const literalNode = node.arguments[0] as LiteralNode;
+                    replacements.push({
+                      start: literalNode.start,
+                      end: literalNode.end,
+                      value: JSON.stringify(nativeFileSpecifier(info)),
+                    });
+                    modified = true;
+                  } else {
+                    // Checked after the walk, once every local binary is known
+                    unresolvedPackageRequires.push({
+                      node,
+                      packageName,
+                      tried,
+                    });
+                  }
                 }
               }
             }
 
-            // Pattern 8: Template literal require with platform-specific packages
-            // Handles: require(`@libsql/${target}`) or require(`@scope/${variable}`)
-            // where the package name is dynamically constructed but follows platform patterns
+            // Pattern 8: Template literal require with platform-specific packages or files
+            // Handles: require(`@libsql/${target}`), require(`sharp-${platform}`),
+            // require(`../build/Release/addon-${process.platform}-${process.arch}.node`)
+            // and require(`./pkg.${triple}.node`). process.platform and process.arch
+            // are expanded for the target, other expressions match what's installed
             if (
               isIdentifier(calleeNode) &&
               (calleeNode.name === "require" ||
@@ -1335,47 +3481,115 @@ module.exports = require('./${info.hashedFilename}');
               node.arguments.length === 1 &&
               node.arguments[0].type === "TemplateLiteral"
             ) {
-              const templateLiteral = node.arguments[0] as BaseASTNode & {
-                quasis: Array<{ value: { raw: string; cooked: string } }>;
-                expressions: BaseASTNode[];
-              };
+              const templateLiteral = node.arguments[0] as TemplateLiteralNode;
+              const firstQuasi = templateLiteral.quasis[0].value.cooked;
+              const isFileTemplate =
+                firstQuasi.startsWith(".") || firstQuasi.startsWith("/");
+              const isPackageTemplate =
+                (firstQuasi.startsWith("@") && firstQuasi.includes("/")) ||
+                /^[a-z0-9][\w.-]*$/i.test(firstQuasi);
 
-              // Check if this is a simple template like `@scope/${expr}`
-              // We need at least one quasi (the prefix) and exactly one expression
               if (
-                templateLiteral.quasis.length >= 1 &&
-                templateLiteral.expressions.length >= 1
+                templateLiteral.expressions.length >= 1 &&
+                (isFileTemplate || isPackageTemplate)
               ) {
-                const prefix = templateLiteral.quasis[0].value.cooked;
-
-                // Check if the prefix looks like a scoped package pattern
-                // e.g., "@libsql/", "@scope/prefix-"
-                if (prefix && prefix.startsWith("@") && prefix.includes("/")) {
-                  // Try to find a matching platform-specific package
-                  const result = findPlatformSpecificNativePackage(
-                    prefix,
-                    path.dirname(id)
+                const tried: string[] = [];
+                const nodeFilePath = resolveLoadForPlatforms(
+                  node,
+                  isFileTemplate ? "template literal" : "napi-rs template",
+                  tried,
+                  (buildTarget) =>
+                    isFileTemplate
+                      ? resolveTemplateFile(templateLiteral, buildTarget, tried)
+                      : resolveTemplatePackage(
+                          templateLiteral,
+                          buildTarget,
+                          tried
+                        )
+                );
+                if (isPackageTemplate) {
+                  recordMissingOptionalDependencies((dependency) =>
+                    dependency.startsWith(firstQuasi)
                   );
+                }
 
-                  if (result) {
-                    const { nodeFilePath } = result;
-                    const info = registerNativeFile(nodeFilePath);
-                    const templateNode = node.arguments[0];
-                    if (
-                      templateNode.start !== undefined &&
-                      templateNode.end !== undefined
-                    ) {
-                      replacements.push({
-                        start: templateNode.start,
-                        end: templateNode.end,
-                        value: `"./${info.hashedFilename}"`,
-                      });
-                      modified = true;
-                    }
+                if (nodeFilePath) {
+                  const info = registerNativeFile(nodeFilePath, id);
+                  // ES modules keep the require at runtime, so select inline
+                  replacements.push({
+                    start: templateLiteral.start!,
+                    end: templateLiteral.end!,
+                    value:
+                      isESModule && info.variants
+                        ? generateVariantSelector(info.variants)
+                        : JSON.stringify(nativeFileSpecifier(info)),
+                  });
+                  modified = true;
+                } else if (isFileTemplate) {
+                  // Only templates of native files, require(`./locales/${lang}.js`) is not a load
+                  const lastQuasi =
+                    templateLiteral.quasis[templateLiteral.quasis.length - 1];
+                  if (shouldProcessFile(lastQuasi.value.cooked, id)) {
+                    recordUnresolvedLoad(node, "template literal", tried);
                   }
+                } else if (
+                  firstQuasi.startsWith("@") ||
+                  templateLiteral.expressions.some(
+                    (expression) =>
+                      evaluatePlatformString(expression) !== undefined
+                  )
+                ) {
+                  recordUnresolvedLoad(node, "napi-rs template", tried);
                 }
               }
             }
+
+            // Pattern 9: Calls that return the path of the binary, which becomes the specifier
+            // node-pre-gyp: binary.find(path.resolve(path.join(__dirname, '../package.json')))
+            // node-gyp-build: nodeGypBuild.path(__dirname) or nodeGypBuild.resolve(__dirname)
+            if (isNativePathCall(node)) {
+              const nodeFilePath = resolveNativePathCall(node);
+              if (nodeFilePath) {
+                const info = registerNativeFile(nodeFilePath, id);
+                replacements.push({
+                  start: node.start,
+                  end: node.end,
+                  value: info.variants
+                    ? generateVariantSelector(info.variants)
+                    : JSON.stringify(nativeFileSpecifier(info)),
+                });
+                modified = true;
+              }
+            }
+
+            // Pattern 10: require(binding_path) or require(binary.find(...))
+            // Replaced like node-gyp-build calls, so the binary is loaded by a static
+            // require. The Pattern 9 replacement inside it is dropped as it overlaps
+            if (
+              isIdentifier(calleeNode) &&
+              (calleeNode.name === "require" ||
+                customRequireVars.has(calleeNode.name)) &&
+              node.arguments.length === 1
+            ) {
+              const arg = node.arguments[0];
+              const nodeFilePath = isIdentifier(arg)
+                ? nativePathVars.get(arg.name)
+                : isNativePathCall(arg)
+                  ? resolveNativePathCall(arg)
+                  : null;
+              if (nodeFilePath) {
+                processNodeFile(nodeFilePath, node);
+              }
+            }
+          }
+
+          // Only walk the branches that run on the target when folding
+          if (
+            options.foldPlatformChecks &&
+            !platformTargets &&
+            foldPlatformCheck(node)
+          ) {
+            return;
           }
 
           // Recursively walk child nodes
@@ -1396,6 +3610,317 @@ module.exports = require('./${info.hashedFilename}');
           }
         };
 
+        // Helper to get the target's value of process.platform or process.arch
+        // (or of a variable destructured from process), or of a string literal
+        function evaluatePlatformString(
+          node: BaseASTNode,
+          buildTarget: ResolvedTarget = target
+        ): string | undefined {
+          if (
+            isMemberExpression(node) &&
+            !(node as BaseASTNode & { computed?: boolean }).computed &&
+            isIdentifier(node.object) &&
+            node.object.name === "process" &&
+            isIdentifier(node.property)
+          ) {
+            if (node.property.name === "platform") return buildTarget.platform;
+            if (node.property.name === "arch") return buildTarget.arch;
+          }
+          // Only references that resolve to the destructuring of process, not to
+          // a parameter or variable of the same name in a nested scope
+          if (isIdentifier(node)) {
+            bindingScopes ??= collectBindingScopes(ast);
+            const property = resolveProcessProperty(bindingScopes, node);
+            if (property === "platform") return buildTarget.platform;
+            if (property === "arch") return buildTarget.arch;
+          }
+          if (isLiteral(node) && typeof node.value === "string") {
+            return node.value;
+          }
+          return undefined;
+        }
+
+        // Helper to expand a template literal for a target, with null for the
+        // expressions that aren't process.platform or process.arch
+        function expandTemplateLiteral(
+          templateLiteral: TemplateLiteralNode,
+          buildTarget: ResolvedTarget
+        ): Array<string | null> {
+          const parts: Array<string | null> = [];
+          templateLiteral.quasis.forEach((quasi, index) => {
+            parts.push(quasi.value.cooked);
+            const expression = templateLiteral.expressions[index];
+            if (expression) {
+              parts.push(
+                evaluatePlatformString(expression, buildTarget) ?? null
+              );
+            }
+          });
+          return parts;
+        }
+
+        // Helper to resolve require(`./addon-${process.platform}.node`) or
+        // require(`./pkg.${triple}.node`) for a target. Unknown expressions match
+        // the files of the directory that are named after the target
+        function resolveTemplateFile(
+          templateLiteral: TemplateLiteralNode,
+          buildTarget: ResolvedTarget,
+          tried: string[]
+        ): string | null {
+          const parts = expandTemplateLiteral(templateLiteral, buildTarget);
+          if (parts.every((part) => part !== null)) {
+            const relativePath = parts.join("");
+            const absolutePath = path.resolve(
+              path.dirname(realId),
+              relativePath
+            );
+            tried.push(absolutePath);
+            return shouldProcessFile(relativePath, id) &&
+              fs.existsSync(absolutePath)
+              ? absolutePath
+              : null;
+          }
+
+          // Only the file name may depend on unknown expressions
+          const firstUnknown = parts.indexOf(null);
+          const prefix = parts.slice(0, firstUnknown).join("");
+          const directory = prefix.slice(0, prefix.lastIndexOf("/") + 1);
+          const nameParts = [
+            prefix.slice(directory.length),
+            ...parts.slice(firstUnknown),
+          ];
+          if (nameParts.some((part) => part?.includes("/"))) return null;
+
+          const absoluteDir = path.resolve(path.dirname(realId), directory);
+          tried.push(
+            path.join(
+              absoluteDir,
+              nameParts.map((part) => part ?? "*").join("")
+            )
+          );
+          const namePattern = new RegExp(
+            `^${nameParts
+              .map((part) =>
+                part === null
+                  ? "(.+)"
+                  : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+              )
+              .join("")}$`
+          );
+          let entries: string[];
+          try {
+            entries = fs.readdirSync(absoluteDir).sort();
+          } catch {
+            return null;
+          }
+          const matches = entries.filter(
+            (entry) =>
+              namePattern.test(entry) &&
+              matchesTargetPackageName(entry, buildTarget) &&
+              shouldProcessFile(`${directory}${entry}`, id)
+          );
+          // Files named after musl win for musl targets, like packages do
+          const match =
+            (buildTarget.libc === "musl" &&
+              matches.find((entry) => /musl/i.test(entry))) ||
+            matches[0];
+          return match ? path.join(absoluteDir, match) : null;
+        }
+
+        // Helper to resolve require(`@libsql/${target}`), require(`sharp-${platform}`)
+        // or require(`@scope/pkg-${process.platform}-${process.arch}`) for a target
+        function resolveTemplatePackage(
+          templateLiteral: TemplateLiteralNode,
+          buildTarget: ResolvedTarget,
+          tried: string[]
+        ): string | null {
+          const parts = expandTemplateLiteral(templateLiteral, buildTarget);
+          if (parts.every((part) => part !== null)) {
+            return resolveNpmPackageNodeFile(
+              parts.join(""),
+              path.dirname(realId),
+              tried
+            );
+          }
+          const prefix = parts.slice(0, parts.indexOf(null)).join("");
+          return (
+            findPlatformSpecificNativePackage(
+              prefix,
+              path.dirname(realId),
+              buildTarget,
+              tried
+            )?.nodeFilePath ?? null
+          );
+        }
+
+        // Helper to evaluate a condition on process.platform, process.arch and
+        // isMusl() for the target, undefined when it depends on anything else
+        function evaluatePlatformCondition(
+          node: BaseASTNode
+        ): boolean | undefined {
+          if (node.type === "BinaryExpression") {
+            const { operator, left, right } = node as BinaryExpressionNode;
+            const leftValue = evaluatePlatformString(left);
+            const rightValue = evaluatePlatformString(right);
+            // Comparing two literals isn't a platform check
+            if (
+              leftValue === undefined ||
+              rightValue === undefined ||
+              (isLiteral(left) && isLiteral(right))
+            ) {
+              return undefined;
+            }
+            if (operator === "===" || operator === "==") {
+              return leftValue === rightValue;
+            }
+            if (operator === "!==" || operator === "!=") {
+              return leftValue !== rightValue;
+            }
+            return undefined;
+          }
+
+          if (node.type === "LogicalExpression") {
+            // Only fold when the left side decides, so no call is dropped
+            // that would have run
+            const { operator, left, right } = node as BinaryExpressionNode;
+            const leftValue = evaluatePlatformCondition(left);
+            if (leftValue === undefined) return undefined;
+            if (operator === "&&") {
+              return leftValue ? evaluatePlatformCondition(right) : false;
+            }
+            if (operator === "||") {
+              return leftValue ? true : evaluatePlatformCondition(right);
+            }
+            return undefined;
+          }
+
+          if (node.type === "UnaryExpression") {
+            const { operator, argument } = node as BaseASTNode & {
+              operator: string;
+              argument: BaseASTNode;
+            };
+            const value =
+              operator === "!"
+                ? evaluatePlatformCondition(argument)
+                : undefined;
+            return value === undefined ? undefined : !value;
+          }
+
+          // NAPI-RS loaders detect musl with an isMusl() function
+          if (
+            isCallExpression(node) &&
+            isIdentifier(node.callee) &&
+            node.callee.name === "isMusl" &&
+            node.arguments.length === 0
+          ) {
+            return target.libc === "musl";
+          }
+
+          return undefined;
+        }
+
+        // Helper to fold an if statement, conditional expression or switch on the
+        // platform, walking only the code that runs on the target
+        // Returns false when the node isn't a platform check
+        function foldPlatformCheck(node: BaseASTNode): boolean {
+          if (
+            node.type === "IfStatement" ||
+            node.type === "ConditionalExpression"
+          ) {
+            const { test, consequent, alternate, start, end } =
+              node as ConditionalNode;
+            const condition = evaluatePlatformCondition(test);
+            if (condition === undefined) return false;
+
+            const live = condition ? consequent : alternate;
+            modified = true;
+            if (!live || live.start === undefined || live.end === undefined) {
+              // An empty statement stays valid as the body of another statement
+              replacements.push({ start, end, value: ";" });
+              return true;
+            }
+
+            // Keep the live branch in place, so replacements inside it still apply
+            const isExpression = node.type === "ConditionalExpression";
+            replacements.push(
+              { start, end: live.start, value: isExpression ? "(" : "" },
+              { start: live.end, end, value: isExpression ? ")" : "" }
+            );
+            walk(live);
+            return true;
+          }
+
+          if (node.type === "SwitchStatement") {
+            const { discriminant, cases } = node as SwitchStatementNode;
+            const value = evaluatePlatformString(discriminant);
+            if (
+              value === undefined ||
+              isLiteral(discriminant) ||
+              discriminant.start === undefined ||
+              discriminant.end === undefined ||
+              cases.some(
+                (switchCase) =>
+                  switchCase.test &&
+                  !(
+                    isLiteral(switchCase.test) &&
+                    typeof switchCase.test.value === "string"
+                  )
+              )
+            ) {
+              return false;
+            }
+
+            // Execution enters at the matching case (or default) and falls
+            // through until a case ends with a jump
+            let entry = cases.findIndex(
+              (switchCase) =>
+                switchCase.test &&
+                (switchCase.test as LiteralNode).value === value
+            );
+            if (entry === -1) {
+              entry = cases.findIndex((switchCase) => !switchCase.test);
+            }
+            let exit = entry;
+            while (exit !== -1 && exit < cases.length - 1) {
+              const { consequent } = cases[exit];
+              const lastStatement = consequent[consequent.length - 1];
+              if (
+                lastStatement &&
+                [
+                  "BreakStatement",
+                  "ContinueStatement",
+                  "ReturnStatement",
+                  "ThrowStatement",
+                ].includes(lastStatement.type)
+              ) {
+                break;
+              }
+              exit++;
+            }
+
+            replacements.push({
+              start: discriminant.start,
+              end: discriminant.end,
+              value: JSON.stringify(value),
+            });
+            cases.forEach((switchCase, index) => {
+              if (entry !== -1 && index >= entry && index <= exit) {
+                switchCase.consequent.forEach(walk);
+              } else {
+                replacements.push({
+                  start: switchCase.start,
+                  end: switchCase.end,
+                  value: "",
+                });
+              }
+            });
+            modified = true;
+            return true;
+          }
+
+          return false;
+        }
+
         // Helper to resolve directory argument (__dirname, path.join, etc.)
         function resolveDirArgument(
           arg: BaseASTNode | undefined,
@@ -1471,6 +3996,11 @@ module.exports = require('./${info.hashedFilename}');
                   // Absolute or relative path
                   baseDir = path.dirname(currentFileId);
                   startIndex = 0;
+                } else if (isCallExpression(firstArg)) {
+                  // Nested call, e.g., path.resolve(path.join(__dirname, '..'))
+                  baseDir = resolveDirArgument(firstArg, currentFileId);
+                  if (!baseDir) return null;
+                  startIndex = 1;
                 } else {
                   // Complex expression
                   return null;
@@ -1503,12 +4033,324 @@ module.exports = require('./${info.hashedFilename}');
           return null;
         }
 
+        // Helper to evaluate the argument of a bindings() call: a name or an
+        // object with bindings, module_root, try and other option overrides
+        function evaluateBindingsArgument(
+          arg: BaseASTNode
+        ): BindingsOptions | null {
+          if (isLiteral(arg) && typeof arg.value === "string") {
+            return { bindings: arg.value, overrides: {} };
+          }
+          if (arg.type !== "ObjectExpression" || !("properties" in arg)) {
+            return null;
+          }
+
+          const bindingsOptions: BindingsOptions = {
+            bindings: "bindings.node",
+            overrides: {},
+          };
+          const properties = arg.properties as Array<{
+            type: string;
+            key?: BaseASTNode;
+            value: BaseASTNode;
+          }>;
+          for (const prop of properties) {
+            if (prop.type !== "Property" || !prop.key) return null;
+            const key = isIdentifier(prop.key)
+              ? prop.key.name
+              : isLiteral(prop.key)
+                ? String(prop.key.value)
+                : null;
+            const value = prop.value;
+
+            if (key === "module_root") {
+              const moduleRoot = resolveDirArgument(value, realId);
+              if (!moduleRoot) return null;
+              bindingsOptions.module_root = moduleRoot;
+            } else if (key === "try") {
+              // An array of arrays of path segments
+              if (!isArrayExpression(value)) return null;
+              const tryPaths: string[][] = [];
+              for (const element of value.elements) {
+                if (!element || !isArrayExpression(element)) return null;
+                const segments = element.elements.map((segment) =>
+                  segment &&
+                  isLiteral(segment) &&
+                  typeof segment.value === "string"
+                    ? segment.value
+                    : null
+                );
+                if (segments.includes(null)) return null;
+                tryPaths.push(segments as string[]);
+              }
+              bindingsOptions.try = tryPaths;
+            } else if (isLiteral(value) && typeof value.value === "string") {
+              if (key === "bindings") {
+                bindingsOptions.bindings = value.value;
+              } else if (key) {
+                bindingsOptions.overrides[key] = value.value;
+              }
+            } else if (key === "bindings") {
+              // The name can't be evaluated statically
+              return null;
+            }
+          }
+          return bindingsOptions;
+        }
+
+        // Helper to check for a method call on a package, either through a
+        // variable that holds it or on require('<package>') directly
+        function isPackageMethodCall(
+          node: BaseASTNode,
+          packageVars: ReadonlySet<string> | ReadonlyMap<string, string>,
+          isPackage: (source: unknown) => boolean,
+          methodNames: string[]
+        ): node is CallExpressionNode {
+          if (
+            !isCallExpression(node) ||
+            node.arguments.length === 0 ||
+            !isMemberExpression(node.callee) ||
+            !isIdentifier(node.callee.property) ||
+            !methodNames.includes(node.callee.property.name)
+          ) {
+            return false;
+          }
+          const object = node.callee.object;
+          return (
+            (isIdentifier(object) && packageVars.has(object.name)) ||
+            (isCallExpression(object) &&
+              isIdentifier(object.callee) &&
+              (object.callee.name === "require" ||
+                customRequireVars.has(object.callee.name)) &&
+              object.arguments.length === 1 &&
+              isLiteral(object.arguments[0]) &&
+              isPackage(object.arguments[0].value))
+          );
+        }
+
+        // Helper to check for binary.find(...) on node-pre-gyp
+        function isNodePreGypFindCall(
+          node: BaseASTNode
+        ): node is CallExpressionNode {
+          return isPackageMethodCall(
+            node,
+            nodePreGypVars,
+            isNodePreGypPackage,
+            ["find"]
+          );
+        }
+
+        // Helper to check for calls that return the path of a binary
+        function isNativePathCall(
+          node: BaseASTNode
+        ): node is CallExpressionNode {
+          return (
+            isNodePreGypFindCall(node) ||
+            isPackageMethodCall(node, nodeGypBuildVars, isNodeGypBuildPackage, [
+              "path",
+              "resolve",
+            ])
+          );
+        }
+
+        // Helper to resolve the binary of a path call, once per call
+        function resolveNativePathCall(
+          callNode: CallExpressionNode
+        ): string | null {
+          if (nativePathCallResults.has(callNode)) {
+            return nativePathCallResults.get(callNode)!;
+          }
+
+          // The loader package, from the variable or require() the method is called on
+          const object = (callNode.callee as MemberExpressionNode).object;
+          const loader = isNodePreGypFindCall(callNode)
+            ? "node-pre-gyp"
+            : isIdentifier(object)
+              ? nodeGypBuildVars.get(object.name)!
+              : String(
+                  ((object as CallExpressionNode).arguments[0] as LiteralNode)
+                    .value
+                );
+          // binary.find() takes the path of package.json, load.path() a directory
+          const resolvedPath = resolveDirArgument(
+            callNode.arguments[0],
+            realId
+          );
+          const tried: string[] = [];
+          const nodeFilePath = resolvedPath
+            ? resolveLoadForPlatforms(callNode, loader, tried, (buildTarget) =>
+                loader === "node-pre-gyp"
+                  ? resolveNodePreGypFind(resolvedPath, buildTarget, tried)
+                  : resolveNodeGypBuildLoader(
+                      loader,
+                      resolvedPath,
+                      buildTarget,
+                      tried
+                    )
+              )
+            : null;
+          if (!nodeFilePath) {
+            recordUnresolvedLoad(callNode, loader, tried);
+          }
+          nativePathCallResults.set(callNode, nodeFilePath);
+          return nodeFilePath;
+        }
+
+        // Helper to remove the imports and require declarators of a loader package
+        // when every reference to their variables is inside a replacement
+        // Declarations left without declarators are removed as a whole
+        function removeUnusedLoaderDeclarations(
+          declarationNodes: BaseASTNode[]
+        ): void {
+          const isReplaced = (position: number) =>
+            replacements.some(
+              (replacement) =>
+                replacement.start <= position && position < replacement.end
+            );
+          const unused = declarationNodes.filter((declarationNode) => {
+            const names = isImportDeclaration(declarationNode)
+              ? declarationNode.specifiers.map(
+                  (specifier) =>
+                    (specifier as ImportDefaultSpecifierNode).local.name
+                )
+              : [
+                  (
+                    (declarationNode as VariableDeclaratorNode)
+                      .id as IdentifierNode
+                  ).name,
+                ];
+            const references = names.flatMap((localName) =>
+              (identifierReferences.get(localName) ?? []).filter(
+                (position) =>
+                  position < declarationNode.start! ||
+                  position >= declarationNode.end!
+              )
+            );
+            return references.length > 0 && references.every(isReplaced);
+          });
+
+          const removedDeclarators = new Map<BaseASTNode, BaseASTNode[]>();
+          for (const declarationNode of unused) {
+            const declaration = variableDeclarations.get(declarationNode);
+            if (!declaration) {
+              replacements.push({
+                start: declarationNode.start!,
+                end: declarationNode.end!,
+                value: "",
+              });
+              continue;
+            }
+            const declarators = removedDeclarators.get(declaration) ?? [];
+            declarators.push(declarationNode);
+            removedDeclarators.set(declaration, declarators);
+          }
+
+          for (const [declaration, removed] of removedDeclarators) {
+            const { declarations } = declaration as BaseASTNode & {
+              declarations: BaseASTNode[];
+            };
+            if (removed.length === declarations.length) {
+              replacements.push({
+                start: declaration.start!,
+                end: declaration.end!,
+                value: "",
+              });
+              continue;
+            }
+            // Declarators before the last one that is kept go up to the next
+            // declarator, the ones after it from its end, with their commas
+            const lastKept = declarations.reduce(
+              (last, declarator, index) =>
+                removed.includes(declarator) ? last : index,
+              -1
+            );
+            for (const declarator of removed) {
+              const index = declarations.indexOf(declarator);
+              if (index < lastKept) {
+                replacements.push({
+                  start: declarator.start!,
+                  end: declarations[index + 1].start!,
+                  value: "",
+                });
+              }
+            }
+            if (lastKept < declarations.length - 1) {
+              replacements.push({
+                start: declarations[lastKept].end!,
+                end: declarations[declarations.length - 1].end!,
+                value: "",
+              });
+            }
+          }
+          if (unused.length > 0) modified = true;
+        }
+
+        // Helper to resolve a load with resolveForPlatforms, recording it as
+        // unresolved for the platforms left without a binary
+        function resolveLoadForPlatforms(
+          callNode: CallExpressionNode,
+          pattern: string,
+          tried: string[],
+          resolver: (buildTarget: ResolvedTarget) => string | null
+        ): string | null {
+          const missingPlatforms: ResolvedTarget[] = [];
+          const nodeFilePath = resolveForPlatforms(
+            id,
+            resolver,
+            missingPlatforms
+          );
+          if (nodeFilePath && missingPlatforms.length > 0) {
+            recordUnresolvedLoad(callNode, pattern, tried, missingPlatforms);
+          }
+          return nodeFilePath;
+        }
+
+        // Helper to record a recognized native load that couldn't be resolved,
+        // for the target or, when it resolved for others, some of the platforms
+        function recordUnresolvedLoad(
+          callNode: CallExpressionNode,
+          pattern: string,
+          candidates: string[],
+          missingPlatforms: ResolvedTarget[] = []
+        ): void {
+          const loads = unresolvedLoads.get(id) ?? [];
+          loads.push({
+            file: id,
+            ...getLineColumn(code, callNode.start ?? 0),
+            pattern,
+            candidates: [...new Set(candidates)],
+            ...(missingPlatforms.length > 0 && {
+              platforms: missingPlatforms.map(
+                (platformTarget) =>
+                  `${platformTarget.platform}-${platformTarget.arch}${platformTarget.libc ? `-${platformTarget.libc}` : ""}`
+              ),
+            }),
+          });
+          unresolvedLoads.set(id, loads);
+        }
+
+        // Helper to record optionalDependencies of this module's package that a
+        // NAPI-RS loader would require for the target but that aren't installed
+        function recordMissingOptionalDependencies(
+          filter: (dependency: string) => boolean
+        ): void {
+          const missing = findMissingOptionalDependencies(realId, filter);
+          if (!missing || missing.dependencies.length === 0) return;
+          const dependencies =
+            missingOptionalDependencies.get(missing.packageName) ??
+            new Set<string>();
+          missing.dependencies.forEach((dependency) =>
+            dependencies.add(dependency)
+          );
+          missingOptionalDependencies.set(missing.packageName, dependencies);
+        }
+
         // Helper to process a found .node file and replace the call expression
         function processNodeFile(
           nodeFilePath: string,
           callNode: CallExpressionNode
         ): void {
-          const info = registerNativeFile(nodeFilePath);
+          const info = registerNativeFile(nodeFilePath, id);
 
           // Determine how to generate the replacement code
           let replacementCode: string;
@@ -1517,10 +4359,13 @@ module.exports = require('./${info.hashedFilename}');
             // For ES6 modules, use inline createRequire(import.meta.url)() call
             // Use the tracked local name if available, otherwise use 'createRequire'
             const funcName = createRequireLocalName || "createRequire";
-            replacementCode = `${funcName}(import.meta.url)("./${info.hashedFilename}")`;
+            const specifier = info.variants
+              ? generateVariantSelector(info.variants)
+              : JSON.stringify(nativeFileSpecifier(info));
+            replacementCode = `${funcName}(import.meta.url)(${specifier})`;
           } else {
             // For CommonJS, use require()
-            replacementCode = `require("./${info.hashedFilename}")`;
+            replacementCode = `require(${JSON.stringify(nativeFileSpecifier(info))})`;
           }
 
           // Replace the entire call expression
@@ -1530,138 +4375,124 @@ module.exports = require('./${info.hashedFilename}');
             value: replacementCode,
           });
           modified = true;
-
-          // Track that we replaced a node-gyp-build usage
-          nodeGypBuildUsageCount++;
         }
 
         walk(ast);
 
-        // Remove unused node-gyp-build imports if we replaced all usages
-        if (nodeGypBuildUsageCount > 0 && nodeGypBuildImportNodes.length > 0) {
-          // Remove the tracked import/require statements
-          for (const importNode of nodeGypBuildImportNodes) {
-            if (
-              importNode.start !== undefined &&
-              importNode.end !== undefined
-            ) {
-              // For ImportDeclaration, remove the entire statement including newline
-              if (importNode.type === "ImportDeclaration") {
-                replacements.push({
-                  start: importNode.start,
-                  end: importNode.end,
-                  value: "",
-                });
-                modified = true;
-              }
-              // For VariableDeclarator (require), remove just the declarator
-              // We'll leave the const/let/var keyword if there are other declarators
-              else if (importNode.type === "VariableDeclarator") {
-                replacements.push({
-                  start: importNode.start,
-                  end: importNode.end,
-                  value: "",
-                });
-                modified = true;
-              }
-            }
-          }
+        // Transform again once Vite has resolved the new bare specifiers
+        if (pendingSpecifiers.size > 0) {
+          return resolveBareSpecifiers(this, pendingSpecifiers, id).then(() =>
+            (plugin.transform as TransformHandler).call(this, code, id)
+          );
         }
 
-        // Remove unused bindings imports if we replaced all usages
-        if (bindingsUsageCount > 0 && bindingsImportNodes.length > 0) {
-          // Remove the tracked import/require statements
-          for (const importNode of bindingsImportNodes) {
-            if (
-              importNode.start !== undefined &&
-              importNode.end !== undefined
-            ) {
-              // For ImportDeclaration, remove the entire statement
-              if (importNode.type === "ImportDeclaration") {
-                replacements.push({
-                  start: importNode.start,
-                  end: importNode.end,
-                  value: "",
-                });
-                modified = true;
-              }
-              // For VariableDeclarator (require), remove just the declarator
-              else if (importNode.type === "VariableDeclarator") {
-                replacements.push({
-                  start: importNode.start,
-                  end: importNode.end,
-                  value: "",
-                });
-                modified = true;
-              }
-            }
+        // NAPI-RS loaders require the package of every platform, only those built
+        // for a target without a local binary (e.g., existsSync(join(__dirname,
+        // 'x.linux-x64-gnu.node'))) are expected to be installed
+        for (const { node, packageName, tried } of unresolvedPackageRequires) {
+          const missingPlatforms = (platformTargets ?? [target]).filter(
+            (buildTarget) =>
+              matchesTargetPackageName(packageName, buildTarget) &&
+              !localNodeFileNames.some((fileName) =>
+                matchesTargetPackageName(fileName, buildTarget)
+              )
+          );
+          if (missingPlatforms.length === 0) continue;
+
+          recordMissingOptionalDependencies(
+            (dependency) => dependency === packageName
+          );
+          // Installed packages without a .node file are plain JavaScript
+          if (isPackageInstalled(packageName, path.dirname(realId))) continue;
+
+          // No node_modules directory on the way up, name the closest one
+          if (tried.length === 0) {
+            tried.push(
+              path.join(path.dirname(realId), "node_modules", packageName)
+            );
           }
+          recordUnresolvedLoad(
+            node,
+            "napi-rs",
+            tried,
+            platformTargets ? missingPlatforms : undefined
+          );
         }
 
-        // Apply replacements in reverse order to maintain correct positions
-        if (modified) {
-          let newCode = code;
+        // Strict mode fails here, with a code frame of the first unresolved load
+        const loads = unresolvedLoads.get(id);
+        if (options.strict && loads) {
+          strictFailure = true;
+          this.error(
+            `Could not resolve ${loads.length} native module load(s) for ${describeTarget(target)}:\n` +
+              loads
+                .map(
+                  (load) =>
+                    `  ${load.line}:${load.column} (${describeLoad(load)}) tried: ${
+                      load.candidates.map(toRootRelativePath).join(", ") ||
+                      "nothing, the argument could not be evaluated statically"
+                    }`
+                )
+                .join("\n"),
+            { line: loads[0].line, column: loads[0].column - 1 }
+          );
+        }
 
-          // For ES6 modules, we need to inject createRequire if not already present
-          let createRequireInjection = "";
+        // Remove loader imports once all their uses are replaced, node-pre-gyp
+        // would otherwise pull its optional aws-sdk and dynamic requires into the bundle
+        removeUnusedLoaderDeclarations(nodeGypBuildImportNodes);
+        removeUnusedLoaderDeclarations(bindingsImportNodes);
+        removeUnusedLoaderDeclarations(nodePreGypImportNodes);
 
+        // Apply replacements and generate a source map for them
+        if (modified) {
+          // For ES6 modules, we need to inject createRequire if not already present
           // Only inject createRequire infrastructure if we actually modified something (replaced node-gyp-build)
           if (isESModule && modified && !hasCreateRequireImport) {
-            createRequireInjection =
+            const createRequireInjection =
               "import { createRequire } from 'module';\n";
-            // Set the local name since we're creating the import
-            createRequireLocalName = "createRequire";
-          }
-
-          // Apply replacements and injections in correct order
-          // Strategy: Build up the injections to prepend, then apply replacements
-
-          let codePrefix = "";
-
-          // Add createRequire import if needed
-          if (createRequireInjection) {
-            codePrefix += createRequireInjection;
-          }
-
-          // Apply replacements to the code (in reverse order to maintain positions)
-          replacements
-            .sort((a, b) => b.start - a.start)
-            .forEach((replacement) => {
-              newCode =
-                newCode.slice(0, replacement.start) +
-                replacement.value +
-                newCode.slice(replacement.end);
-            });
 
-          // If we have injections, we need to insert them after existing imports
-          if (codePrefix) {
-            // Find the position after the last import in the (potentially modified) code
-            // We'll look for the last "import" statement and insert after it
+            // Insert after the last import statement of the original code
+            // Replacements are positioned against the original code too, so the
+            // injection becomes one more (zero-length) replacement
             const importRegex = /^import\s+.*?;?\s*$/gm;
             let lastImportMatch;
             let match;
-            while ((match = importRegex.exec(newCode)) !== null) {
+            while ((match = importRegex.exec(code)) !== null) {
               lastImportMatch = match;
             }
 
             if (lastImportMatch) {
-              // Insert after the last import
               const insertPos =
                 lastImportMatch.index + lastImportMatch[0].length;
-              newCode =
-                newCode.slice(0, insertPos) +
-                "\n" +
-                codePrefix +
-                newCode.slice(insertPos);
+              replacements.push({
+                start: insertPos,
+                end: insertPos,
+                value: "\n" + createRequireInjection,
+              });
             } else {
               // No imports found, prepend to the file
-              newCode = codePrefix + "\n" + newCode;
+              replacements.push({
+                start: 0,
+                end: 0,
+                value: createRequireInjection + "\n",
+              });
             }
           }
 
-          return { code: newCode, map: null };
+          return applyReplacements(code, replacements, id);
         }
       } catch (error) {
+        if (strictFailure) throw error;
+        if (options.strict) {
+          // Parse errors carry the offset of the failure for the code frame
+          this.error(
+            `Failed to parse ${id} for native module transformation: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            (error as { pos?: number }).pos
+          );
+        }
         // If parsing fails, log and skip transformation
         console.warn(
           `Failed to parse ${id} for native module transformation:`,
@@ -1672,5 +4503,47 @@ module.exports = require('./${info.hashedFilename}');
 
       return null;
     },
+
+    // Vite writes its manifest in generateBundle after this plugin's hook, so the
+    // details of native files are added to the written file. Outputs that aren't
+    // written (build.write: false) keep Vite's { file, src } entries
+    writeBundle(outputOptions) {
+      if (!viteManifest || devServer || nativeFiles.size === 0) return;
+      if (!outputOptions.dir) return;
+
+      const manifestPath = path.join(
+        outputOptions.dir,
+        typeof viteManifest === "string" ? viteManifest : DEFAULT_VITE_MANIFEST
+      );
+      // Multi-output builds write the manifest with the last output
+      if (!fs.existsSync(manifestPath)) return;
+
+      const filesByName = new Map(
+        [...nativeFiles.values()].map((info) => [info.hashedFilename, info])
+      );
+      const manifest: Record<string, { file?: string }> = JSON.parse(
+        fs.readFileSync(manifestPath, "utf-8")
+      );
+      let changed = false;
+      for (const entry of Object.values(manifest)) {
+        const info = entry.file && filesByName.get(entry.file);
+        if (!info) continue;
+        const { packageName, packageVersion, size, sha256, importers } =
+          createManifestEntry(info);
+        Object.assign(entry, {
+          packageName,
+          packageVersion,
+          size,
+          sha256,
+          importers,
+        });
+        changed = true;
+      }
+      if (changed) {
+        fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+      }
+    },
   };
+
+  return plugin;
 }
@@ -227,7 +227,7 @@ const binding = bindings({ bindings: 'binding' });`;
       expect(result.code).toBeDefined();
     });
 
-    it("should prefer build/Release over build/Debug", () => {
+    it("should prefer build/Debug over build/Release like bindings does", () => {
       const plugin = nativeFilePlugin() as Plugin;
       (plugin.configResolved as any)({
         command: "build",
@@ -253,18 +253,105 @@ const binding = bindings({ bindings: 'binding' });`;
 
       expect(result).not.toBeNull();
       expect(result.code).toBeDefined();
-      // Should use Release version (check hash matches release content)
-      const releaseContent = fs.readFileSync(
-        path.join(releaseDir, "addon.node")
-      );
+      // Should use Debug version (check hash matches debug content)
+      const debugContent = fs.readFileSync(path.join(debugDir, "addon.node"));
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const crypto = require("crypto");
-      const releaseHash = crypto
+      const debugHash = crypto
         .createHash("md5")
-        .update(releaseContent)
+        .update(debugContent)
         .digest("hex")
         .slice(0, 8);
-      expect(result.code).toContain(`addon-${releaseHash.toUpperCase()}.node`);
+      expect(result.code).toContain(`addon-${debugHash.toUpperCase()}.node`);
+    });
+  });
+
+  describe("bindings Lookup Order and Options", () => {
+    // Writes a binary relative to tempDir and returns the transformed code
+    function transformWith(
+      code: string,
+      binaryPath: string,
+      options: Parameters<typeof nativeFilePlugin>[0] = {}
+    ): string | undefined {
+      const plugin = nativeFilePlugin(options) as Plugin;
+      (plugin.configResolved as any)({
+        command: "build",
+        mode: "production",
+      });
+
+      fs.mkdirSync(path.dirname(path.join(tempDir, binaryPath)), {
+        recursive: true,
+      });
+      fs.writeFileSync(path.join(tempDir, binaryPath), "fake binary");
+      fs.writeFileSync(path.join(tempDir, "package.json"), "{}");
+
+      const result = (plugin.transform as any).call(
+        { parse },
+        code,
+        path.join(tempDir, "lib", "index.js")
+      );
+      return result?.code;
+    }
+
+    it("should find node-qbs builds in addon-build", () => {
+      const code = transformWith(
+        `const addon = require('bindings')('addon');`,
+        "addon-build/release/install-root/addon.node"
+      );
+
+      expect(code).toMatch(/require\("\.\/addon-[A-F0-9]{8}\.node"\)/);
+    });
+
+    it("should find compiled builds for the target", () => {
+      const code = transformWith(
+        `const addon = require('bindings')('addon');`,
+        "compiled/20.11.0/linux/arm64/addon.node",
+        {
+          target: {
+            platform: "linux",
+            arch: "arm64",
+            runtime: { name: "node", version: "20.11.0" },
+          },
+        }
+      );
+
+      expect(code).toMatch(/require\("\.\/addon-[A-F0-9]{8}\.node"\)/);
+    });
+
+    it("should resolve paths from module_root", () => {
+      const code = transformWith(
+        `const path = require('path');
+const addon = require('bindings')({ bindings: 'addon', module_root: path.join(__dirname, '..', 'native') });`,
+        "native/build/Release/addon.node"
+      );
+
+      expect(code).toMatch(/require\("\.\/addon-[A-F0-9]{8}\.node"\)/);
+    });
+
+    it("should only try the paths of the try option", () => {
+      const tryOption = `try: [['module_root', 'prebuilt', 'platform', 'bindings']]`;
+
+      expect(
+        transformWith(
+          `const addon = require('bindings')({ bindings: 'addon', ${tryOption} });`,
+          `prebuilt/${process.platform}/addon.node`
+        )
+      ).toMatch(/require\("\.\/addon-[A-F0-9]{8}\.node"\)/);
+      expect(
+        transformWith(
+          `const addon = require('bindings')({ bindings: 'other', ${tryOption} });`,
+          "build/Release/other.node"
+        )
+      ).toBeUndefined();
+    });
+
+    it("should replace try segments with option overrides", () => {
+      const code = transformWith(
+        `const addon = require('bindings')({ bindings: 'addon', compiled: 'dist', try: [['module_root', 'compiled', 'bindings']] });`,
+        "dist/addon.node"
+      );
+
+      expect(code).toMatch(/require\("\.\/addon-[A-F0-9]{8}\.node"\)/);
     });
   });
 
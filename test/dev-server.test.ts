@@ -0,0 +1,164 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for dev server (serve) support
+ *
+ * During `vite dev` / `vite-node`, native loading call sites are rewritten to
+ * the absolute paths of the original binaries. Nothing is copied or hashed,
+ * but the same detection code paths run as in a build.
+ */
+describe("Dev Server Support", () => {
+  let tempDir: string;
+  const platform = process.platform;
+  const arch = process.arch;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dev-server-test-"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function createServePlugin(
+    options: Parameters<typeof nativeFilePlugin>[0] = {}
+  ): Plugin {
+    const plugin = nativeFilePlugin(options) as Plugin;
+    (plugin.configResolved as any)({
+      command: "serve",
+      mode: "development",
+    });
+    return plugin;
+  }
+
+  it("should rewrite bindings calls to the original binary", () => {
+    const plugin = createServePlugin();
+
+    const releaseDir = path.join(tempDir, "build", "Release");
+    fs.mkdirSync(releaseDir, { recursive: true });
+    const nodeFilePath = path.join(releaseDir, "addon.node");
+    fs.writeFileSync(nodeFilePath, Buffer.from("addon"));
+    fs.writeFileSync(path.join(tempDir, "package.json"), "{}");
+
+    const code = `const addon = require('bindings')('addon');`;
+    const result = (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "index.js")
+    );
+
+    expect(result).toBeDefined();
+    expect(result.code).toContain(`require(${JSON.stringify(nodeFilePath)})`);
+    expect(result.code).not.toContain("bindings");
+  });
+
+  it("should replace NAPI-RS join(__dirname, ...) calls with the absolute path", () => {
+    const plugin = createServePlugin();
+
+    const nodeFileName = `libsql.${platform}-${arch}.node`;
+    const nodeFilePath = path.join(tempDir, nodeFileName);
+    fs.writeFileSync(nodeFilePath, Buffer.from("native binding"));
+
+    const code = `
+      const { join } = require('path');
+      const exists = existsSync(join(__dirname, '${nodeFileName}'));
+      const binding = require('./${nodeFileName}');
+    `;
+    const result = (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "index.js")
+    );
+
+    expect(result).toBeDefined();
+    expect(result.code).toContain(
+      `existsSync(${JSON.stringify(nodeFilePath)})`
+    );
+    expect(result.code).toContain(`require(${JSON.stringify(nodeFilePath)})`);
+    expect(result.code).not.toContain("__dirname");
+  });
+
+  it("should generate an ESM loader for the original file", async () => {
+    const plugin = nativeFilePlugin() as Plugin;
+    (plugin.configResolved as any)({
+      command: "serve",
+      mode: "development",
+      build: { rollupOptions: { output: { format: "cjs" } } },
+    });
+
+    const nodeFilePath = path.join(tempDir, "addon.node");
+    fs.writeFileSync(nodeFilePath, Buffer.from("addon"));
+
+    const virtualId = await (plugin.resolveId as any).call(
+      {},
+      "./addon.node",
+      path.join(tempDir, "index.js"),
+      {}
+    );
+    const loadResult = await (plugin.load as any).call({}, virtualId);
+
+    expect(loadResult).toContain("createRequire(import.meta.url)");
+    expect(loadResult).toContain(`__require(${JSON.stringify(nodeFilePath)})`);
+    expect(loadResult).not.toContain("module.exports");
+  });
+
+  it("should only resolve for the host when bundling several platforms", () => {
+    const plugin = createServePlugin({
+      platforms: ["linux-x64", "linux-arm64", "darwin-arm64"],
+    });
+
+    for (const tuple of ["linux-x64", "linux-arm64", "darwin-arm64"]) {
+      const dir = path.join(tempDir, "prebuilds", tuple);
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, "addon.node"), Buffer.from(tuple));
+    }
+    const hostDir = path.join(tempDir, "prebuilds", `${platform}-${arch}`);
+    fs.mkdirSync(hostDir, { recursive: true });
+    fs.writeFileSync(path.join(hostDir, "addon.node"), Buffer.from("host"));
+
+    const code = `module.exports = require('node-gyp-build')(__dirname);`;
+    const result = (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "index.js")
+    );
+
+    expect(result).toBeDefined();
+    expect(result.code).toContain(
+      JSON.stringify(path.join(hostDir, "addon.node"))
+    );
+    expect(result.code).not.toContain("process.platform");
+  });
+
+  it("should not emit any files", async () => {
+    const plugin = createServePlugin();
+    const emittedFiles: any[] = [];
+
+    fs.writeFileSync(path.join(tempDir, "addon.node"), Buffer.from("addon"));
+    await (plugin.resolveId as any).call(
+      {},
+      "./addon.node",
+      path.join(tempDir, "index.js"),
+      {}
+    );
+    (plugin.generateBundle as any).call(
+      { emitFile: (file: any) => emittedFiles.push(file) },
+      {},
+      {},
+      false
+    );
+
+    expect(emittedFiles).toHaveLength(0);
+  });
+});
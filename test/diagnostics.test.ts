@@ -0,0 +1,213 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for diagnostics about native loads that could not be resolved
+ *
+ * Recognized loading patterns that resolve to nothing are left as is, so the
+ * plugin reports them through Vite's logger at the end of the build, along
+ * with platform-specific optionalDependencies that aren't installed.
+ */
+describe("Unresolved Native Load Diagnostics", () => {
+  let tempDir: string;
+  let packageDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "diagnostics-test-"));
+    packageDir = path.join(tempDir, "node_modules", "native-addon");
+    fs.mkdirSync(packageDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function writePackageJson(packageJson: Record<string, unknown>): void {
+    fs.writeFileSync(
+      path.join(packageDir, "package.json"),
+      JSON.stringify({ name: "native-addon", ...packageJson })
+    );
+  }
+
+  // Transforms the modules and returns the warnings logged at the end of the build
+  function build(modules: Record<string, string>): string[] {
+    const warnings: string[] = [];
+    const plugin = nativeFilePlugin({
+      target: { platform: "linux", arch: "x64", libc: "glibc" },
+    }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      root: tempDir,
+      logger: { warn: (message: string) => warnings.push(message) },
+    });
+
+    for (const [relativePath, code] of Object.entries(modules)) {
+      (plugin.transform as any).call(
+        { parse },
+        code,
+        path.join(packageDir, relativePath)
+      );
+    }
+    (plugin.buildEnd as any).call({});
+    return warnings;
+  }
+
+  it("should report node-gyp-build loads with the paths it tried", () => {
+    writePackageJson({});
+
+    const warnings = build({
+      "index.js": `'use strict';
+module.exports = require('node-gyp-build')(__dirname);`,
+    });
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain(
+      "Could not resolve 1 native module load(s) for linux-x64"
+    );
+    expect(warnings[0]).toContain(
+      "node_modules/native-addon/index.js:2:18 (node-gyp-build)"
+    );
+    expect(warnings[0]).toContain("node_modules/native-addon/prebuilds\n");
+    expect(warnings[0]).toContain("node_modules/native-addon/build/Release");
+  });
+
+  it("should report bindings loads with the paths it tried", () => {
+    writePackageJson({});
+
+    const warnings = build({
+      "lib/index.js": `module.exports = require('bindings')('addon');`,
+    });
+
+    expect(warnings[0]).toContain(
+      "node_modules/native-addon/lib/index.js:1:18 (bindings)"
+    );
+    expect(warnings[0]).toContain(
+      "node_modules/native-addon/build/Release/addon.node"
+    );
+    expect(warnings[0]).toContain("node_modules/native-addon/lib/binding");
+  });
+
+  it("should report arguments that can't be evaluated", () => {
+    writePackageJson({});
+
+    const warnings = build({
+      "index.js": `module.exports = require('bindings')(process.env.ADDON);`,
+    });
+
+    expect(warnings[0]).toContain(
+      "(bindings)\n    tried: nothing, the argument could not be evaluated statically"
+    );
+  });
+
+  it("should report NAPI-RS optionalDependencies that aren't installed", () => {
+    writePackageJson({
+      optionalDependencies: {
+        "@native-addon/darwin-arm64": "1.0.0",
+        "@native-addon/linux-x64-gnu": "1.0.0",
+        "@native-addon/linux-x64-musl": "1.0.0",
+      },
+    });
+
+    const warnings = build({
+      "index.js": `const { existsSync } = require('fs');
+const { join } = require('path');
+let nativeBinding;
+if (existsSync(join(__dirname, 'addon.linux-x64-gnu.node'))) {
+  nativeBinding = require('./addon.linux-x64-gnu.node');
+} else {
+  nativeBinding = require('@native-addon/linux-x64-gnu');
+}
+module.exports = nativeBinding;`,
+      "template.js": "module.exports = require(`@native-addon/${target}`);",
+    });
+
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain(
+      "node_modules/native-addon/index.js:7:19 (napi-rs)"
+    );
+    expect(warnings[0]).toContain(
+      "node_modules/native-addon/template.js:1:18 (napi-rs template)"
+    );
+    expect(warnings[1]).toContain(
+      "not installed:\n  native-addon: @native-addon/linux-x64-gnu\n"
+    );
+    expect(warnings[1]).not.toContain("darwin-arm64");
+    expect(warnings[1]).not.toContain("musl");
+  });
+
+  it("should not report NAPI-RS packages of targets with a local binary", () => {
+    writePackageJson({
+      optionalDependencies: { "@native-addon/linux-x64-gnu": "1.0.0" },
+    });
+    fs.writeFileSync(path.join(packageDir, "addon.linux-x64-gnu.node"), "x64");
+
+    const warnings = build({
+      "index.js": `const { existsSync } = require('fs');
+const { join } = require('path');
+let nativeBinding;
+if (existsSync(join(__dirname, 'addon.linux-x64-gnu.node'))) {
+  nativeBinding = require('./addon.linux-x64-gnu.node');
+} else {
+  nativeBinding = require('@native-addon/linux-x64-gnu');
+}
+module.exports = nativeBinding;`,
+    });
+
+    expect(warnings).toHaveLength(0);
+  });
+
+  it("should report platforms left without a binary", () => {
+    writePackageJson({});
+    const prebuildDir = path.join(packageDir, "prebuilds", "linux-x64");
+    fs.mkdirSync(prebuildDir, { recursive: true });
+    fs.writeFileSync(path.join(prebuildDir, "node.napi.node"), "x64");
+
+    const warnings: string[] = [];
+    const plugin = nativeFilePlugin({
+      platforms: ["linux-x64", "linux-arm64"],
+    }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      root: tempDir,
+      logger: { warn: (message: string) => warnings.push(message) },
+    });
+    (plugin.transform as any).call(
+      { parse },
+      `module.exports = require('node-gyp-build')(__dirname);`,
+      path.join(packageDir, "index.js")
+    );
+    (plugin.buildEnd as any).call({});
+
+    expect(
+      warnings.find((warning) => warning.includes("Could not resolve"))
+    ).toContain(
+      "node_modules/native-addon/index.js:1:18 (node-gyp-build for linux-arm64)"
+    );
+  });
+
+  it("should not report loads that resolve", () => {
+    writePackageJson({});
+    const releaseDir = path.join(packageDir, "build", "Release");
+    fs.mkdirSync(releaseDir, { recursive: true });
+    fs.writeFileSync(path.join(releaseDir, "addon.node"), Buffer.from("x"));
+
+    const warnings = build({
+      "index.js": `module.exports = require('node-gyp-build')(__dirname);`,
+      "bindings.js": `module.exports = require('bindings')('addon');`,
+    });
+
+    expect(warnings).toHaveLength(0);
+  });
+});
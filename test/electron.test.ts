@@ -0,0 +1,233 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for Electron targets
+ *
+ * Electron uses its own NODE_MODULE_VERSION, so Node.js ABI builds can't be
+ * loaded. With `target.runtime` set to Electron, prebuilds tagged
+ * `electron.abiNNN` and node-pre-gyp `electron-v*` directories are selected,
+ * and a warning is logged when only Node.js ABI binaries are installed.
+ */
+describe("Electron Runtime", () => {
+  let tempDir: string;
+  const electronTarget = {
+    platform: "linux",
+    arch: "x64",
+    runtime: { name: "electron" as const, version: "31.x" },
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "electron-test-"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function createFiles(dir: string, fileNames: string[]): void {
+    fs.mkdirSync(path.join(tempDir, dir), { recursive: true });
+    for (const fileName of fileNames) {
+      fs.writeFileSync(
+        path.join(tempDir, dir, fileName),
+        Buffer.from(`${dir}/${fileName}`)
+      );
+    }
+  }
+
+  // Transforms the code and returns the source of the emitted binary
+  function bundleNativeFile(
+    code: string,
+    warnings: string[] = []
+  ): string | null {
+    const plugin = nativeFilePlugin({ target: electronTarget }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      logger: { warn: (message: string) => warnings.push(message) },
+    });
+
+    const result = (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "index.js")
+    );
+    if (!result) return null;
+
+    const emittedFiles: any[] = [];
+    (plugin.generateBundle as any).call(
+      { emitFile: (file: any) => emittedFiles.push(file) },
+      {},
+      {},
+      false
+    );
+    return emittedFiles[0].source.toString();
+  }
+
+  describe("node-gyp-build prebuilds", () => {
+    const code = `module.exports = require('node-gyp-build')(__dirname);`;
+
+    it("should select the Electron ABI build", () => {
+      createFiles("prebuilds/linux-x64", [
+        "node.abi115.node",
+        "electron.abi123.node",
+        "electron.abi125.node",
+      ]);
+
+      expect(bundleNativeFile(code)).toBe(
+        "prebuilds/linux-x64/electron.abi125.node"
+      );
+    });
+
+    it("should prefer the Electron ABI build over N-API", () => {
+      createFiles("prebuilds/linux-x64", [
+        "node.napi.node",
+        "electron.abi125.node",
+      ]);
+
+      expect(bundleNativeFile(code)).toBe(
+        "prebuilds/linux-x64/electron.abi125.node"
+      );
+    });
+
+    it("should accept N-API builds without warning", () => {
+      createFiles("prebuilds/linux-x64", [
+        "node.napi.node",
+        "node.abi125.node",
+      ]);
+      const warnings: string[] = [];
+
+      expect(bundleNativeFile(code, warnings)).toBe(
+        "prebuilds/linux-x64/node.napi.node"
+      );
+      expect(warnings).toHaveLength(0);
+    });
+
+    it("should warn when only Node.js ABI builds are available", () => {
+      createFiles("prebuilds/linux-x64", [
+        "node.abi115.node",
+        "node.abi127.node",
+      ]);
+      const warnings: string[] = [];
+
+      expect(bundleNativeFile(code, warnings)).toBe(
+        "prebuilds/linux-x64/node.abi127.node"
+      );
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain("Only Node.js ABI prebuilds");
+      expect(warnings[0]).toContain("electron abi125");
+    });
+  });
+
+  describe("node-pre-gyp layouts", () => {
+    const code = `const addon = require('bindings')('addon');`;
+
+    beforeEach(() => {
+      fs.writeFileSync(path.join(tempDir, "package.json"), "{}");
+    });
+
+    it("should prefer electron-v* directories", () => {
+      createFiles("lib/binding/node-v125-linux-x64", ["addon.node"]);
+      createFiles("lib/binding/electron-v31.0-linux-x64", ["addon.node"]);
+      createFiles("lib/binding/electron-v30.0-linux-x64", ["addon.node"]);
+
+      expect(bundleNativeFile(code)).toBe(
+        "lib/binding/electron-v31.0-linux-x64/addon.node"
+      );
+    });
+
+    it("should warn when only Node.js ABI directories are available", () => {
+      createFiles("lib/binding/node-v115-linux-x64", ["addon.node"]);
+      const warnings: string[] = [];
+
+      expect(bundleNativeFile(code, warnings)).toBe(
+        "lib/binding/node-v115-linux-x64/addon.node"
+      );
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain("Only Node.js ABI binaries");
+    });
+
+    it("should select node-v<abi> directories for Node.js targets", () => {
+      createFiles("lib/binding/node-v108-linux-x64", ["addon.node"]);
+      createFiles("lib/binding/node-v115-linux-x64", ["addon.node"]);
+
+      const plugin = nativeFilePlugin({
+        target: {
+          platform: "linux",
+          arch: "x64",
+          runtime: { name: "node", version: "20.11.0" },
+        },
+      }) as Plugin;
+      (plugin.configResolved as any)({ command: "build", mode: "production" });
+      (plugin.transform as any).call(
+        { parse },
+        code,
+        path.join(tempDir, "index.js")
+      );
+
+      const emittedFiles: any[] = [];
+      (plugin.generateBundle as any).call(
+        { emitFile: (file: any) => emittedFiles.push(file) },
+        {},
+        {},
+        false
+      );
+      expect(emittedFiles[0].source.toString()).toBe(
+        "lib/binding/node-v115-linux-x64/addon.node"
+      );
+    });
+  });
+
+  describe("node-pre-gyp binary.find()", () => {
+    const code = `const binary = require('@mapbox/node-pre-gyp');
+const path = require('path');
+module.exports = require(binary.find(path.resolve(path.join(__dirname, 'package.json'))));`;
+
+    beforeEach(() => {
+      fs.writeFileSync(
+        path.join(tempDir, "package.json"),
+        JSON.stringify({
+          name: "addon",
+          version: "1.0.0",
+          binary: {
+            module_name: "addon",
+            module_path: "./lib/binding/{node_abi}-{platform}-{arch}",
+          },
+        })
+      );
+    });
+
+    it("should match electron-v<major>.* directories of any minor version", () => {
+      createFiles("lib/binding/node-v125-linux-x64", ["addon.node"]);
+      createFiles("lib/binding/electron-v31.2-linux-x64", ["addon.node"]);
+      createFiles("lib/binding/electron-v30.0-linux-x64", ["addon.node"]);
+      const warnings: string[] = [];
+
+      expect(bundleNativeFile(code, warnings)).toBe(
+        "lib/binding/electron-v31.2-linux-x64/addon.node"
+      );
+      expect(warnings).toHaveLength(0);
+    });
+
+    it("should warn when only Node.js ABI directories are available", () => {
+      createFiles("lib/binding/node-v115-linux-x64", ["addon.node"]);
+      const warnings: string[] = [];
+
+      expect(bundleNativeFile(code, warnings)).toBe(
+        "lib/binding/node-v115-linux-x64/addon.node"
+      );
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain("Only Node.js ABI binaries");
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { NativeFileNameInfo } from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for templated output file names
+ *
+ * Besides 'preserve' and 'hash-only', `filenameFormat` accepts a template with
+ * [name], [hash], [package], [platform], [arch], [ext] and [extname] tokens, or
+ * a function. Without it, Rollup's output.assetFileNames is respected.
+ */
+describe("Output File Name Templates", () => {
+  let tempDir: string;
+  let indexPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "filename-template-test-"));
+
+    // node_modules/native-addon/prebuilds/linux-x64/addon.node
+    const packageDir = path.join(tempDir, "node_modules", "native-addon");
+    const prebuildsDir = path.join(packageDir, "prebuilds", "linux-x64");
+    fs.mkdirSync(prebuildsDir, { recursive: true });
+    fs.writeFileSync(path.join(prebuildsDir, "addon.node"), Buffer.from("x"));
+    fs.writeFileSync(
+      path.join(packageDir, "package.json"),
+      JSON.stringify({ name: "native-addon" })
+    );
+    indexPath = path.join(packageDir, "index.js");
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  // Transforms a node-gyp-build loader and returns the transformed code and emitted file name
+  function bundle(
+    options: Parameters<typeof nativeFilePlugin>[0],
+    rollupOutput?: Record<string, unknown>
+  ): { plugin: Plugin; code: string; fileName: string } {
+    const plugin = nativeFilePlugin({
+      target: { platform: "linux", arch: "x64" },
+      ...options,
+    }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      build: rollupOutput ? { rollupOptions: { output: rollupOutput } } : {},
+    });
+
+    const result = (plugin.transform as any).call(
+      { parse },
+      `module.exports = require('node-gyp-build')(__dirname);`,
+      indexPath
+    );
+
+    const emittedFiles: any[] = [];
+    (plugin.generateBundle as any).call(
+      { emitFile: (file: any) => emittedFiles.push(file) },
+      {},
+      {},
+      false
+    );
+    return { plugin, code: result.code, fileName: emittedFiles[0].fileName };
+  }
+
+  it("should fill every token of a template", () => {
+    const { code, fileName } = bundle({
+      filenameFormat:
+        "native/[package]/[name].[platform]-[arch].[hash][extname]",
+    });
+
+    expect(fileName).toMatch(
+      /^native\/native-addon\/addon\.linux-x64\.[A-F0-9]{8}\.node$/
+    );
+    expect(code).toContain(`require("./${fileName}")`);
+  });
+
+  it("should drop the [package] segment for files outside node_modules", () => {
+    fs.writeFileSync(path.join(tempDir, "local.node"), Buffer.from("local"));
+    const plugin = nativeFilePlugin({
+      filenameFormat: "native/[package]/[name].[ext]",
+    }) as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+    const result = (plugin.transform as any).call(
+      { parse },
+      `const local = require('./local.node');`,
+      path.join(tempDir, "index.js")
+    );
+
+    expect(result.code).toContain(`require("./native/local.node")`);
+  });
+
+  it("should call a filename function", () => {
+    const calls: NativeFileNameInfo[] = [];
+    const { fileName } = bundle({
+      filenameFormat: (file) => {
+        calls.push(file);
+        return `bin/${file.packageName}_${file.hash.toLowerCase()}${file.extname}`;
+      },
+    });
+
+    expect(fileName).toMatch(/^bin\/native-addon_[a-f0-9]{8}\.node$/);
+    expect(calls[0]).toMatchObject({
+      name: "addon",
+      extname: ".node",
+      packageName: "native-addon",
+      platform: "linux",
+      arch: "x64",
+    });
+  });
+
+  it("should quote names with quotes in join(__dirname, ...)", () => {
+    fs.writeFileSync(path.join(tempDir, "addon.node"), Buffer.from("addon"));
+    const plugin = nativeFilePlugin({
+      filenameFormat: (file) => `it's-${file.name}${file.extname}`,
+    }) as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+    const result = (plugin.transform as any).call(
+      { parse },
+      `const { join } = require('path');
+const addonPath = join(__dirname, 'addon.node');`,
+      path.join(tempDir, "index.js")
+    );
+
+    expect(result.code).toContain(`join(__dirname, "it's-addon.node")`);
+    expect(() => parse(result.code)).not.toThrow();
+  });
+
+  it("should fail on function results outside the output directory", () => {
+    const plugin = nativeFilePlugin({
+      target: { platform: "linux", arch: "x64" },
+      filenameFormat: (file) => `../${file.name}${file.extname}`,
+    }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      root: tempDir,
+    });
+    (plugin.transform as any).call(
+      { parse },
+      `module.exports = require('node-gyp-build')(__dirname);`,
+      indexPath
+    );
+
+    expect(() =>
+      (plugin.generateBundle as any).call(
+        {
+          emitFile: () => {},
+          error: (message: string) => {
+            throw new Error(message);
+          },
+        },
+        {},
+        {},
+        false
+      )
+    ).toThrow(
+      "filenameFormat must name files inside the output directory:\n  ../addon.node: node_modules/native-addon/prebuilds/linux-x64/addon.node"
+    );
+  });
+
+  it("should respect Rollup's output.assetFileNames", () => {
+    const { fileName } = bundle(
+      {},
+      { assetFileNames: "assets/[name]-[hash][extname]" }
+    );
+
+    expect(fileName).toMatch(/^assets\/addon-[A-F0-9]{8}\.node$/);
+  });
+
+  it("should call an output.assetFileNames function", () => {
+    const { fileName } = bundle(
+      {},
+      {
+        assetFileNames: (assetInfo: { name: string }) =>
+          assetInfo.name.endsWith(".node")
+            ? "native/[name].[hash].[ext]"
+            : "assets/[name][extname]",
+      }
+    );
+
+    expect(fileName).toMatch(/^native\/addon\.[A-F0-9]{8}\.node$/);
+  });
+
+  it("should truncate [hash:N] to N characters", () => {
+    expect(
+      bundle({ filenameFormat: "native/[name]-[hash:4][extname]" }).fileName
+    ).toMatch(/^native\/addon-[A-F0-9]{4}\.node$/);
+    expect(
+      bundle({}, { assetFileNames: "assets/[name]-[hash:12][extname]" })
+        .fileName
+    ).toMatch(/^assets\/addon-[A-F0-9]{12}\.node$/);
+  });
+
+  it("should prefer filenameFormat over output.assetFileNames", () => {
+    const { fileName } = bundle(
+      { filenameFormat: "hash-only" },
+      { assetFileNames: "assets/[name]-[hash][extname]" }
+    );
+
+    expect(fileName).toMatch(/^[A-F0-9]{8}\.node$/);
+  });
+
+  it("should resolve the rewritten require of a templated file", async () => {
+    const { plugin, fileName } = bundle({
+      filenameFormat: "native/[package]/[name]-[hash][extname]",
+    });
+
+    const resolved = await (plugin.resolveId as any).call(
+      {},
+      `./${fileName}`,
+      indexPath,
+      {}
+    );
+
+    expect(resolved.id).toBe(
+      `\0native:${path.join(
+        tempDir,
+        "node_modules/native-addon/prebuilds/linux-x64/addon.node"
+      )}`
+    );
+  });
+
+  it("should reject unknown placeholders", () => {
+    expect(() =>
+      nativeFilePlugin({ filenameFormat: "[name]-[contenthash].node" })
+    ).toThrow("Unknown placeholder [contenthash]");
+    expect(() =>
+      nativeFilePlugin({ filenameFormat: "[name:4]-[hash].node" })
+    ).toThrow("Unknown placeholder [name:4]");
+  });
+
+  it("should reject templates outside the output directory", () => {
+    expect(() =>
+      nativeFilePlugin({ filenameFormat: "../native/[name][extname]" })
+    ).toThrow("filenameFormat must name files inside the output directory");
+    expect(() =>
+      nativeFilePlugin({ filenameFormat: "native/../../[name][extname]" })
+    ).toThrow("filenameFormat must name files inside the output directory");
+  });
+
+  it("should reject hash lengths the hash algorithm can't provide", () => {
+    expect(() =>
+      nativeFilePlugin({ filenameFormat: "[name]-[hash:0].node" })
+    ).toThrow("must be between 1 and 32");
+    expect(() =>
+      nativeFilePlugin({ filenameFormat: "[name]-[hash:33].node" })
+    ).toThrow("must be between 1 and 32");
+    expect(() =>
+      nativeFilePlugin({
+        filenameFormat: "[name]-[hash:64].node",
+        hashAlgorithm: "sha256",
+      })
+    ).not.toThrow();
+  });
+});
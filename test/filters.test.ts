@@ -0,0 +1,128 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for the include/exclude and skipPackages options
+ *
+ * Filtered modules are left untouched by the transform hook, for packages
+ * that ship their own bundler-friendly loaders or cause false positives.
+ */
+describe("Module Filters", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "filters-test-"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  // Writes addon.node next to the module and returns whether the module was transformed
+  function isTransformed(
+    options: Parameters<typeof nativeFilePlugin>[0],
+    relativePath: string
+  ): boolean {
+    const modulePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(modulePath), { recursive: true });
+    fs.writeFileSync(
+      path.join(path.dirname(modulePath), "addon.node"),
+      Buffer.from("addon")
+    );
+
+    const plugin = nativeFilePlugin(options) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      root: tempDir,
+    });
+    const result = (plugin.transform as any).call(
+      { parse },
+      `const addon = require('./addon.node');`,
+      modulePath
+    );
+    return result !== null;
+  }
+
+  it("should transform every module by default", () => {
+    expect(isTransformed({}, "src/index.js")).toBe(true);
+    expect(isTransformed({}, "node_modules/native-addon/index.js")).toBe(true);
+  });
+
+  it("should only transform included modules", () => {
+    const options = { include: ["src/**"] };
+
+    expect(isTransformed(options, "src/index.js")).toBe(true);
+    expect(isTransformed(options, "lib/index.js")).toBe(false);
+  });
+
+  it("should not transform excluded modules", () => {
+    const options = { exclude: [/[\\/]fixtures[\\/]/, "vendor/**"] };
+
+    expect(isTransformed(options, "src/index.js")).toBe(true);
+    expect(isTransformed(options, "src/fixtures/index.js")).toBe(false);
+    expect(isTransformed(options, "vendor/index.js")).toBe(false);
+  });
+
+  it("should not transform skipped packages", () => {
+    const options = { skipPackages: ["native-addon", "@scope/loader"] };
+
+    expect(isTransformed(options, "node_modules/native-addon/index.js")).toBe(
+      false
+    );
+    expect(
+      isTransformed(options, "node_modules/@scope/loader/lib/index.js")
+    ).toBe(false);
+    expect(isTransformed(options, "node_modules/other/index.js")).toBe(true);
+  });
+
+  it("should not resolve .node imports of filtered modules", async () => {
+    fs.writeFileSync(path.join(tempDir, "addon.node"), Buffer.from("addon"));
+    const plugin = nativeFilePlugin({
+      exclude: ["legacy/**"],
+      skipPackages: ["native-addon"],
+    }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      root: tempDir,
+    });
+    const resolveId = (source: string, importer: string) =>
+      (plugin.resolveId as any).call({}, source, path.join(tempDir, importer));
+
+    expect(await resolveId("../addon.node", "src/index.js")).toBe(
+      `\0native:${path.join(tempDir, "addon.node")}`
+    );
+    expect(await resolveId("../addon.node", "legacy/index.js")).toBeNull();
+    expect(
+      await resolveId("../../addon.node", "node_modules/native-addon/index.js")
+    ).toBeNull();
+  });
+
+  it("should match skipped packages in pnpm's layout", () => {
+    const options = { skipPackages: ["native-addon"] };
+
+    expect(
+      isTransformed(
+        options,
+        "node_modules/.pnpm/native-addon@1.0.0/node_modules/native-addon/index.js"
+      )
+    ).toBe(false);
+    expect(
+      isTransformed(
+        options,
+        "node_modules/native-addon/node_modules/other/index.js"
+      )
+    ).toBe(true);
+  });
+});
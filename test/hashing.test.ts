@@ -0,0 +1,141 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for content hashing of output file names
+ *
+ * The hash algorithm and length are configurable. When two different
+ * binaries end up with the same output file name, the build fails and names
+ * both originals instead of silently shipping only one of them.
+ */
+describe("Content Hashing", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "hashing-test-"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeNativeFile(relativePath: string, content: string): void {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, Buffer.from(content));
+  }
+
+  // Transforms requires of the given files and runs generateBundle
+  function bundle(
+    options: Parameters<typeof nativeFilePlugin>[0],
+    relativePaths: string[]
+  ): { emittedFiles: any[]; errors: string[] } {
+    const plugin = nativeFilePlugin(options) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      root: tempDir,
+    });
+
+    const code = relativePaths
+      .map((relativePath, i) => `const m${i} = require('./${relativePath}');`)
+      .join("\n");
+    (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "index.js")
+    );
+
+    const emittedFiles: any[] = [];
+    const errors: string[] = [];
+    try {
+      (plugin.generateBundle as any).call(
+        {
+          emitFile: (file: any) => emittedFiles.push(file),
+          error: (message: string) => {
+            errors.push(message);
+            throw new Error(message);
+          },
+        },
+        {},
+        {},
+        false
+      );
+    } catch {
+      // Recorded in errors
+    }
+    return { emittedFiles, errors };
+  }
+
+  it("should use an 8 character md5 hash by default", () => {
+    writeNativeFile("addon.node", "addon");
+    const { emittedFiles } = bundle({}, ["addon.node"]);
+
+    const md5 = crypto.createHash("md5").update("addon").digest("hex");
+    expect(emittedFiles[0].fileName).toBe(
+      `addon-${md5.slice(0, 8).toUpperCase()}.node`
+    );
+  });
+
+  it("should use the configured algorithm and length", () => {
+    writeNativeFile("addon.node", "addon");
+    const { emittedFiles } = bundle(
+      { hashAlgorithm: "sha256", hashLength: 16 },
+      ["addon.node"]
+    );
+
+    const sha256 = crypto.createHash("sha256").update("addon").digest("hex");
+    expect(emittedFiles[0].fileName).toBe(
+      `addon-${sha256.slice(0, 16).toUpperCase()}.node`
+    );
+  });
+
+  it("should reject hash lengths the algorithm can't provide", () => {
+    expect(() => nativeFilePlugin({ hashLength: 33 })).toThrow(
+      "hashLength must be an integer between 1 and 32 for md5"
+    );
+    expect(() =>
+      nativeFilePlugin({ hashAlgorithm: "sha1", hashLength: 0 })
+    ).toThrow("between 1 and 40 for sha1");
+    expect(() =>
+      nativeFilePlugin({ hashAlgorithm: "sha256", hashLength: 64 })
+    ).not.toThrow();
+  });
+
+  it("should fail when different files map to the same name", () => {
+    writeNativeFile("a/addon.node", "first");
+    writeNativeFile("b/addon.node", "second");
+
+    const { errors } = bundle({ filenameFormat: "[name][extname]" }, [
+      "a/addon.node",
+      "b/addon.node",
+    ]);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain("addon.node: a/addon.node and b/addon.node");
+  });
+
+  it("should allow identical copies to share a name", () => {
+    writeNativeFile("a/addon.node", "same");
+    writeNativeFile("b/addon.node", "same");
+
+    const { emittedFiles, errors } = bundle({ filenameFormat: "hash-only" }, [
+      "a/addon.node",
+      "b/addon.node",
+    ]);
+
+    expect(errors).toHaveLength(0);
+    expect(new Set(emittedFiles.map((file) => file.fileName)).size).toBe(1);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for glibc/musl selection
+ *
+ * Linux binaries are built against either glibc or musl (Alpine). The libc
+ * comes from `target.libc`, npm_config_libc or the host, and decides between
+ * NAPI-RS `-gnu`/`-musl` packages, musl-named packages found by scanning a
+ * scope, and node-gyp-build prebuilds tagged `glibc`/`musl`.
+ */
+describe("libc Selection", () => {
+  let tempDir: string;
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "libc-test-"));
+    delete process.env.npm_config_libc;
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function createPackage(packageName: string): void {
+    const pkgDir = path.join(tempDir, "node_modules", packageName);
+    fs.mkdirSync(pkgDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(pkgDir, "package.json"),
+      JSON.stringify({ name: packageName, main: "index.node" })
+    );
+    fs.writeFileSync(path.join(pkgDir, "index.node"), Buffer.from(packageName));
+  }
+
+  // Transforms the code and returns the source of the emitted binary
+  function bundleNativeFile(
+    code: string,
+    libc?: "glibc" | "musl"
+  ): string | null {
+    const plugin = nativeFilePlugin({
+      target: { platform: "linux", arch: "x64", libc },
+    }) as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+    const result = (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "index.js")
+    );
+    if (!result) return null;
+
+    const emittedFiles: any[] = [];
+    (plugin.generateBundle as any).call(
+      { emitFile: (file: any) => emittedFiles.push(file) },
+      {},
+      {},
+      false
+    );
+    return emittedFiles[0].source.toString();
+  }
+
+  describe("NAPI-RS packages", () => {
+    const code = "const binding = require(`@libsql/${target}`);";
+
+    beforeEach(() => {
+      createPackage("@libsql/linux-x64-gnu");
+      createPackage("@libsql/linux-x64-musl");
+    });
+
+    it("should select the musl package for musl targets", () => {
+      expect(bundleNativeFile(code, "musl")).toBe("@libsql/linux-x64-musl");
+    });
+
+    it("should select the gnu package for glibc targets", () => {
+      expect(bundleNativeFile(code, "glibc")).toBe("@libsql/linux-x64-gnu");
+    });
+
+    it("should take the libc from npm_config_libc", () => {
+      process.env.npm_config_libc = "musl";
+
+      expect(bundleNativeFile(code)).toBe("@libsql/linux-x64-musl");
+    });
+
+    it("should not fall back to a package built for another libc", () => {
+      const nodeModulesDir = path.join(tempDir, "node_modules");
+      fs.rmSync(path.join(nodeModulesDir, "@libsql/linux-x64-musl"), {
+        recursive: true,
+      });
+
+      expect(bundleNativeFile(code, "musl")).toBeNull();
+    });
+  });
+
+  describe("Scope scanning", () => {
+    const code = "const sharp = require(`@img/sharp-${runtimePlatform}`);";
+
+    beforeEach(() => {
+      createPackage("@img/sharp-linux-x64");
+      createPackage("@img/sharp-linuxmusl-x64");
+    });
+
+    it("should prefer musl-named packages for musl targets", () => {
+      expect(bundleNativeFile(code, "musl")).toBe("@img/sharp-linuxmusl-x64");
+    });
+
+    it("should skip musl-named packages for glibc targets", () => {
+      expect(bundleNativeFile(code, "glibc")).toBe("@img/sharp-linux-x64");
+    });
+  });
+
+  describe("node-gyp-build prebuilds", () => {
+    it("should select the prebuild tagged with the target libc", () => {
+      const dir = path.join(tempDir, "prebuilds", "linux-x64");
+      fs.mkdirSync(dir, { recursive: true });
+      for (const fileName of ["node.napi.glibc.node", "node.napi.musl.node"]) {
+        fs.writeFileSync(path.join(dir, fileName), Buffer.from(fileName));
+      }
+      const code = `module.exports = require('node-gyp-build')(__dirname);`;
+
+      expect(bundleNativeFile(code, "musl")).toBe("node.napi.musl.node");
+      expect(bundleNativeFile(code, "glibc")).toBe("node.napi.glibc.node");
+    });
+  });
+});
@@ -0,0 +1,300 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { NativeManifestEntry } from "../src/index.js";
+import { build, type Plugin, type Rollup } from "vite";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for the native modules manifest
+ *
+ * With `manifest: true`, a native-manifest.json describing every bundled
+ * native file is emitted. With Vite's `build.manifest`, the native files are
+ * also listed in Vite's own manifest.
+ */
+describe("Native Modules Manifest", () => {
+  let tempDir: string;
+  const platform = process.platform;
+  const arch = process.arch;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "manifest-test-"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  // Creates node_modules/native-addon with a node-gyp-build loader
+  function createNativePackage(): { indexPath: string; nodeFilePath: string } {
+    const packageDir = path.join(tempDir, "node_modules", "native-addon");
+    const prebuildsDir = path.join(packageDir, "prebuilds", `${platform}-${arch}`);
+    fs.mkdirSync(prebuildsDir, { recursive: true });
+
+    const nodeFilePath = path.join(prebuildsDir, "addon.node");
+    fs.writeFileSync(nodeFilePath, Buffer.from("fake native module"));
+    fs.writeFileSync(
+      path.join(packageDir, "package.json"),
+      JSON.stringify({ name: "native-addon", version: "1.2.3", main: "index.js" })
+    );
+    // Nested package.json without a name, as used to set the module type
+    fs.writeFileSync(
+      path.join(packageDir, "prebuilds", "package.json"),
+      JSON.stringify({ type: "commonjs" })
+    );
+
+    const indexPath = path.join(packageDir, "index.js");
+    fs.writeFileSync(
+      indexPath,
+      `'use strict';
+module.exports = require('node-gyp-build')(__dirname);
+`
+    );
+    return { indexPath, nodeFilePath };
+  }
+
+  describe("native-manifest.json", () => {
+    it("should not emit a manifest by default", () => {
+      const { indexPath } = createNativePackage();
+      const plugin = nativeFilePlugin() as Plugin;
+      (plugin.configResolved as any)({ command: "build", root: tempDir });
+
+      (plugin.transform as any).call(
+        { parse },
+        fs.readFileSync(indexPath, "utf-8"),
+        indexPath
+      );
+
+      const emittedFiles: any[] = [];
+      (plugin.generateBundle as any).call(
+        { emitFile: (file: any) => emittedFiles.push(file) },
+        {},
+        {},
+        false
+      );
+
+      expect(emittedFiles.map((file) => file.fileName)).not.toContain(
+        "native-manifest.json"
+      );
+    });
+
+    it("should describe every bundled native file", () => {
+      const { indexPath, nodeFilePath } = createNativePackage();
+      const plugin = nativeFilePlugin({ manifest: true }) as Plugin;
+      (plugin.configResolved as any)({ command: "build", root: tempDir });
+
+      (plugin.transform as any).call(
+        { parse },
+        fs.readFileSync(indexPath, "utf-8"),
+        indexPath
+      );
+
+      const emittedFiles: any[] = [];
+      (plugin.generateBundle as any).call(
+        { emitFile: (file: any) => emittedFiles.push(file) },
+        {},
+        {},
+        false
+      );
+
+      const nativeAsset = emittedFiles.find((file) =>
+        file.fileName.endsWith(".node")
+      );
+      const manifestAsset = emittedFiles.find(
+        (file) => file.fileName === "native-manifest.json"
+      );
+      expect(manifestAsset).toBeDefined();
+
+      const manifest: Record<string, NativeManifestEntry> = JSON.parse(
+        manifestAsset.source
+      );
+      const content = fs.readFileSync(nodeFilePath);
+      expect(manifest[nativeAsset.fileName]).toEqual({
+        file: nativeAsset.fileName,
+        originalPath: `node_modules/native-addon/prebuilds/${platform}-${arch}/addon.node`,
+        packageName: "native-addon",
+        packageVersion: "1.2.3",
+        size: content.length,
+        sha256: crypto.createHash("sha256").update(content).digest("hex"),
+        importers: ["node_modules/native-addon/index.js"],
+      });
+    });
+
+    it("should use a custom manifest file name", () => {
+      createNativePackage();
+      const plugin = nativeFilePlugin({
+        manifest: "meta/natives.json",
+      }) as Plugin;
+      (plugin.configResolved as any)({ command: "build", root: tempDir });
+
+      const emittedFiles: any[] = [];
+      (plugin.generateBundle as any).call(
+        { emitFile: (file: any) => emittedFiles.push(file) },
+        {},
+        {},
+        false
+      );
+
+      expect(emittedFiles.map((file) => file.fileName)).toContain(
+        "meta/natives.json"
+      );
+    });
+  });
+
+  describe("Vite build manifest", () => {
+    it("should add native files to Vite's manifest", async () => {
+      // SSR builds externalize node_modules, so load the binary from the project
+      const nativeDir = path.join(tempDir, "native");
+      fs.mkdirSync(nativeDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(nativeDir, "addon.node"),
+        Buffer.from("fake native module")
+      );
+
+      const entryPath = path.join(tempDir, "index.js");
+      fs.writeFileSync(
+        entryPath,
+        `const addon = require('./native/addon.node');
+module.exports = { addon };
+`
+      );
+
+      const result = (await build({
+        root: tempDir,
+        logLevel: "silent",
+        build: {
+          write: false,
+          ssr: true,
+          manifest: true,
+          lib: { entry: entryPath, formats: ["cjs"] },
+        },
+        plugins: [nativeFilePlugin({ forced: true, manifest: true })],
+      })) as Rollup.RollupOutput | Rollup.RollupOutput[];
+
+      const output = Array.isArray(result) ? result[0] : result;
+      const nativeAsset = output.output.find((o) =>
+        o.fileName.endsWith(".node")
+      );
+      const viteManifestAsset = output.output.find(
+        (o): o is Rollup.OutputAsset => o.fileName === ".vite/manifest.json"
+      );
+      const nativeManifestAsset = output.output.find(
+        (o): o is Rollup.OutputAsset => o.fileName === "native-manifest.json"
+      );
+
+      expect(nativeAsset).toBeDefined();
+      expect(nativeManifestAsset).toBeDefined();
+      expect(viteManifestAsset).toBeDefined();
+
+      const viteManifest = JSON.parse(viteManifestAsset!.source as string);
+      const src = "native/addon.node";
+      expect(viteManifest[src]).toEqual({
+        file: nativeAsset!.fileName,
+        src,
+      });
+    });
+
+    it("should add the details of native files to the written manifest", async () => {
+      const nativeDir = path.join(tempDir, "native");
+      fs.mkdirSync(nativeDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(nativeDir, "addon.node"),
+        Buffer.from("fake native module")
+      );
+      fs.writeFileSync(
+        path.join(tempDir, "package.json"),
+        JSON.stringify({ name: "native-app", version: "2.0.0" })
+      );
+
+      const entryPath = path.join(tempDir, "index.js");
+      fs.writeFileSync(
+        entryPath,
+        `const addon = require('./native/addon.node');
+module.exports = { addon };
+`
+      );
+
+      await build({
+        root: tempDir,
+        logLevel: "silent",
+        build: {
+          outDir: "dist",
+          ssr: true,
+          manifest: true,
+          lib: { entry: entryPath, formats: ["cjs"] },
+        },
+        plugins: [nativeFilePlugin({ forced: true })],
+      });
+
+      const viteManifest = JSON.parse(
+        fs.readFileSync(
+          path.join(tempDir, "dist", ".vite", "manifest.json"),
+          "utf-8"
+        )
+      );
+      const entry = viteManifest["native/addon.node"];
+      expect(entry).toEqual({
+        file: expect.stringMatching(/^addon-[A-F0-9]{8}\.node$/),
+        src: "native/addon.node",
+        packageName: "native-app",
+        packageVersion: "2.0.0",
+        size: 18,
+        sha256: crypto
+          .createHash("sha256")
+          .update("fake native module")
+          .digest("hex"),
+        importers: ["index.js"],
+      });
+      expect(fs.existsSync(path.join(tempDir, "dist", entry.file))).toBe(true);
+    });
+
+    it("should patch manifest.json in the output directory for Vite 3 and 4", async () => {
+      vi.resetModules();
+      vi.doMock("vite", async (importOriginal) => ({
+        ...(await importOriginal<typeof import("vite")>()),
+        version: "4.5.3",
+      }));
+      const { default: legacyPlugin } = await import("../src/index.js");
+      vi.doUnmock("vite");
+
+      const { indexPath } = createNativePackage();
+      const outDir = path.join(tempDir, "dist");
+      const manifestPath = path.join(outDir, "manifest.json");
+      const plugin = legacyPlugin({ forced: true }) as Plugin;
+      (plugin.configResolved as any)({
+        command: "build",
+        mode: "production",
+        root: tempDir,
+        build: { manifest: true },
+      });
+      const { code } = (plugin.transform as any).call(
+        { parse },
+        fs.readFileSync(indexPath, "utf-8"),
+        indexPath
+      );
+      const file = code.match(/require\("\.\/([^"]+\.node)"\)/)[1];
+
+      fs.mkdirSync(outDir, { recursive: true });
+      fs.writeFileSync(
+        manifestPath,
+        JSON.stringify({ "native-addon/addon.node": { file } })
+      );
+      (plugin.writeBundle as any).call({}, { dir: outDir }, {});
+
+      const viteManifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+      expect(viteManifest["native-addon/addon.node"]).toMatchObject({
+        file,
+        packageName: "native-addon",
+        packageVersion: "1.2.3",
+      });
+    });
+  });
+});
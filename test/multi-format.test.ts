@@ -0,0 +1,129 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import { build, type Plugin, type Rollup } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+
+/**
+ * Tests for builds with several output formats
+ *
+ * Rollup loads each module once for all outputs, so the native loader of a
+ * lib build with formats ['es', 'cjs'] calls a placeholder that renderChunk
+ * turns into require() for CommonJS outputs and createRequire(import.meta.url)
+ * for ES outputs.
+ */
+describe("Multi-Format Builds", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "multi-format-test-"));
+    fs.writeFileSync(path.join(tempDir, "addon.node"), Buffer.from("addon"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  async function loadVirtualModule(plugin: Plugin): Promise<string> {
+    const virtualId = await (plugin.resolveId as any).call(
+      {},
+      "./addon.node",
+      path.join(tempDir, "index.js"),
+      {}
+    );
+    return (plugin.load as any).call({}, virtualId);
+  }
+
+  it("should keep the single-format loader for one output", async () => {
+    const plugin = nativeFilePlugin() as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      build: { lib: { entry: "index.js", formats: ["cjs"] } },
+    });
+
+    const loaderCode = await loadVirtualModule(plugin);
+
+    expect(loaderCode).toContain("module.exports = require(");
+    expect(loaderCode).not.toContain("__NATIVE_MODULES_REQUIRE__");
+  });
+
+  it("should use a placeholder when outputs have different formats", async () => {
+    const plugin = nativeFilePlugin() as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      build: {
+        rollupOptions: { output: [{ format: "es" }, { format: "cjs" }] },
+      },
+    });
+
+    const loaderCode = await loadVirtualModule(plugin);
+
+    expect(loaderCode).toContain("__NATIVE_MODULES_REQUIRE__(");
+    expect(loaderCode).not.toContain("import.meta.url");
+    expect(loaderCode).not.toContain("module.exports");
+  });
+
+  it("should specialize the loader for each output", async () => {
+    // Only CommonJS dependencies go through the virtual module loader
+    const packageDir = path.join(tempDir, "node_modules", "native-addon");
+    fs.mkdirSync(packageDir, { recursive: true });
+    fs.renameSync(
+      path.join(tempDir, "addon.node"),
+      path.join(packageDir, "addon.node")
+    );
+    fs.writeFileSync(
+      path.join(packageDir, "package.json"),
+      JSON.stringify({ name: "native-addon", main: "index.js" })
+    );
+    fs.writeFileSync(
+      path.join(packageDir, "index.js"),
+      `module.exports = require('./addon.node');`
+    );
+
+    const entryPath = path.join(tempDir, "index.js");
+    fs.writeFileSync(
+      entryPath,
+      `#!/usr/bin/env node
+import addon from 'native-addon';
+export { addon };
+`
+    );
+
+    const result = (await build({
+      root: tempDir,
+      logLevel: "silent",
+      build: {
+        write: false,
+        minify: false,
+        lib: { entry: entryPath, formats: ["es", "cjs"] },
+      },
+      plugins: [nativeFilePlugin({ forced: true })],
+    })) as Rollup.RollupOutput | Rollup.RollupOutput[];
+
+    const chunks = (Array.isArray(result) ? result : [result])
+      .flatMap((output) => output.output)
+      .filter((o): o is Rollup.OutputChunk => o.type === "chunk");
+    const esCode = chunks.find((o) => o.fileName === "index.mjs")!.code;
+    const cjsCode = chunks.find((o) => o.fileName === "index.js")!.code;
+
+    expect(esCode.startsWith("#!/usr/bin/env node\n")).toBe(true);
+    expect(esCode).toContain(
+      "const __nativeRequire = __nativeCreateRequire(import.meta.url);"
+    );
+    expect(esCode).toMatch(
+      /__nativeRequire\("\.\/native-addon-addon-[A-F0-9]{8}\.node"\)/
+    );
+    expect(cjsCode).toMatch(
+      /= require\("\.\/native-addon-addon-[A-F0-9]{8}\.node"\)/
+    );
+    expect(cjsCode).not.toContain("import.meta.url");
+    for (const code of [esCode, cjsCode]) {
+      expect(code).not.toContain("__NATIVE_MODULES_REQUIRE__");
+    }
+  });
+});
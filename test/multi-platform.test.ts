@@ -0,0 +1,246 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) =>
+  acornParse(code, { ecmaVersion: "latest", sourceType: "module" });
+
+/**
+ * Tests for multi-platform bundles
+ *
+ * With `platforms`, every prebuild matching one of the configured platforms is
+ * emitted, and the `\0native:` virtual module becomes a small loader that
+ * selects the right hashed file at runtime based on platform, arch and libc.
+ */
+describe("Multi-Platform Bundles", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "multi-platform-test-"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function createPrebuild(tuple: string, fileName: string): void {
+    const dir = path.join(tempDir, "prebuilds", tuple);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, fileName), Buffer.from(tuple));
+  }
+
+  // Runs CJS loader code with a fake process and returns the required path
+  function runLoader(
+    loaderCode: string,
+    fakeProcess: { platform: string; arch: string; glibc?: boolean }
+  ): string {
+    let requiredPath = "";
+    const fakeRequire = (request: string) => {
+      requiredPath = request;
+      return {};
+    };
+    const processStub = {
+      platform: fakeProcess.platform,
+      arch: fakeProcess.arch,
+      report: {
+        getReport: () => ({
+          header: fakeProcess.glibc ? { glibcVersionRuntime: "2.35" } : {},
+        }),
+      },
+    };
+    new Function("require", "module", "process", loaderCode)(
+      fakeRequire,
+      { exports: {} },
+      processStub
+    );
+    return requiredPath;
+  }
+
+  async function loadVirtualModule(plugin: Plugin, code: string) {
+    const jsFilePath = path.join(tempDir, "index.js");
+    const result = (plugin.transform as any).call({ parse }, code, jsFilePath);
+    const specifier = result.code.match(/require\("(\.\/[^"]+)"\)/)![1];
+    const resolved = await (plugin.resolveId as any).call(
+      {},
+      specifier,
+      jsFilePath,
+      {}
+    );
+    return (plugin.load as any).call({}, resolved.id) as string;
+  }
+
+  it("should emit the prebuild of every configured platform", () => {
+    createPrebuild("linux-x64", "addon.node");
+    createPrebuild("linux-arm64", "addon.node");
+    createPrebuild("win32-x64", "addon.node");
+
+    const plugin = nativeFilePlugin({
+      platforms: ["linux-x64", "linux-arm64"],
+    }) as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+    const code = `module.exports = require('node-gyp-build')(__dirname);`;
+    const result = (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "index.js")
+    );
+    expect(result).toBeDefined();
+
+    const emittedFiles: any[] = [];
+    (plugin.generateBundle as any).call(
+      { emitFile: (file: any) => emittedFiles.push(file) },
+      {},
+      {},
+      false
+    );
+
+    expect(emittedFiles).toHaveLength(2);
+    const sources = emittedFiles.map((file) => file.source.toString()).sort();
+    expect(sources).toEqual(["linux-arm64", "linux-x64"]);
+  });
+
+  it("should generate a loader that selects the variant at runtime", async () => {
+    createPrebuild("linux-x64", "addon.node");
+    createPrebuild("linux-arm64", "addon.node");
+
+    const plugin = nativeFilePlugin({
+      platforms: ["linux-x64", "linux-arm64"],
+    }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      build: { rollupOptions: { output: { format: "cjs" } } },
+    });
+
+    const loaderCode = await loadVirtualModule(
+      plugin,
+      `module.exports = require('node-gyp-build')(__dirname);`
+    );
+
+    const x64File = runLoader(loaderCode, { platform: "linux", arch: "x64" });
+    const arm64File = runLoader(loaderCode, {
+      platform: "linux",
+      arch: "arm64",
+    });
+
+    expect(x64File).toMatch(/^\.\/addon-[A-F0-9]{8}\.node$/);
+    expect(arm64File).toMatch(/^\.\/addon-[A-F0-9]{8}\.node$/);
+    expect(x64File).not.toBe(arm64File);
+    expect(() =>
+      runLoader(loaderCode, { platform: "darwin", arch: "arm64" })
+    ).toThrow("No native module bundled for darwin-arm64");
+  });
+
+  it("should select glibc and musl variants at runtime", async () => {
+    createPrebuild("linux-x64", "node.napi.glibc.node");
+    createPrebuild("linux-x64", "node.napi.musl.node");
+
+    const plugin = nativeFilePlugin({
+      platforms: ["linux-x64-glibc", "linux-x64-musl"],
+    }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      build: { rollupOptions: { output: { format: "cjs" } } },
+    });
+
+    const loaderCode = await loadVirtualModule(
+      plugin,
+      `module.exports = require('node-gyp-build')(__dirname);`
+    );
+
+    const glibcFile = runLoader(loaderCode, {
+      platform: "linux",
+      arch: "x64",
+      glibc: true,
+    });
+    const muslFile = runLoader(loaderCode, { platform: "linux", arch: "x64" });
+
+    expect(glibcFile).toMatch(/^\.\/node\.napi\.glibc-[A-F0-9]{8}\.node$/);
+    expect(muslFile).toMatch(/^\.\/node\.napi\.musl-[A-F0-9]{8}\.node$/);
+  });
+
+  it("should prefer the musl variant over a platform without libc", async () => {
+    createPrebuild("linux-x64", "node.napi.glibc.node");
+    createPrebuild("linux-x64", "node.napi.musl.node");
+
+    const plugin = nativeFilePlugin({
+      platforms: ["linux-x64", "linux-x64-musl"],
+    }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      build: { rollupOptions: { output: { format: "cjs" } } },
+    });
+
+    const loaderCode = await loadVirtualModule(
+      plugin,
+      `module.exports = require('node-gyp-build')(__dirname);`
+    );
+
+    const glibcFile = runLoader(loaderCode, {
+      platform: "linux",
+      arch: "x64",
+      glibc: true,
+    });
+    const muslFile = runLoader(loaderCode, { platform: "linux", arch: "x64" });
+
+    expect(glibcFile).toMatch(/^\.\/node\.napi\.glibc-[A-F0-9]{8}\.node$/);
+    expect(muslFile).toMatch(/^\.\/node\.napi\.musl-[A-F0-9]{8}\.node$/);
+  });
+
+  it("should inline the selector for ES modules", () => {
+    createPrebuild("linux-x64", "addon.node");
+    createPrebuild("darwin-arm64", "addon.node");
+
+    const plugin = nativeFilePlugin({
+      platforms: ["linux-x64", "darwin-arm64"],
+    }) as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+    const code = `
+import nodeGypBuild from 'node-gyp-build';
+const binding = nodeGypBuild(__dirname);
+export default binding;
+`;
+    const result = (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "index.mjs")
+    );
+
+    expect(result).toBeDefined();
+    expect(result.code).toContain("createRequire(import.meta.url)((() => {");
+    expect(result.code).toContain("process.platform");
+    expect(result.code.match(/addon-[A-F0-9]{8}\.node/g)!.length).toBe(2);
+  });
+
+  it("should not generate a selector when only one platform matches", async () => {
+    createPrebuild("linux-x64", "addon.node");
+
+    const plugin = nativeFilePlugin({
+      platforms: ["linux-x64", "linux-arm64"],
+    }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      build: { rollupOptions: { output: { format: "cjs" } } },
+    });
+
+    const loaderCode = await loadVirtualModule(
+      plugin,
+      `module.exports = require('node-gyp-build')(__dirname);`
+    );
+
+    expect(loaderCode).not.toContain("process.platform");
+    expect(loaderCode).toMatch(/require\("\.\/addon-[A-F0-9]{8}\.node"\)/);
+  });
+});
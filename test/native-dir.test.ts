@@ -0,0 +1,144 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import { build, type Plugin, type Rollup } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for the `nativeDir` option
+ *
+ * Native files are emitted into a subdirectory of the output directory, and
+ * every generated reference (rewritten requires, join(__dirname, ...) and the
+ * virtual module loader) points into it.
+ */
+describe("Native Output Directory", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "native-dir-test-"));
+    fs.writeFileSync(path.join(tempDir, "addon.node"), Buffer.from("addon"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function createPlugin(nativeDir: string): Plugin {
+    const plugin = nativeFilePlugin({ nativeDir }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      build: { rollupOptions: { output: { format: "cjs" } } },
+    });
+    return plugin;
+  }
+
+  it("should emit native files into the directory", () => {
+    const plugin = createPlugin("native");
+    (plugin.transform as any).call(
+      { parse },
+      `const addon = require('./addon.node');`,
+      path.join(tempDir, "index.js")
+    );
+
+    const emittedFiles: any[] = [];
+    (plugin.generateBundle as any).call(
+      { emitFile: (file: any) => emittedFiles.push(file) },
+      {},
+      {},
+      false
+    );
+
+    expect(emittedFiles[0].fileName).toMatch(
+      /^native\/addon-[A-F0-9]{8}\.node$/
+    );
+  });
+
+  it("should point rewritten requires into the directory", () => {
+    const plugin = createPlugin("./native/");
+    const result = (plugin.transform as any).call(
+      { parse },
+      `const addon = require('./addon.node');`,
+      path.join(tempDir, "index.js")
+    );
+
+    expect(result.code).toMatch(
+      /require\("\.\/native\/addon-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should point join(__dirname, ...) into the directory", () => {
+    const plugin = createPlugin("native");
+    const result = (plugin.transform as any).call(
+      { parse },
+      `const { join } = require('path');
+const addonPath = join(__dirname, 'addon.node');`,
+      path.join(tempDir, "index.js")
+    );
+
+    expect(result.code).toMatch(
+      /join\(__dirname, "native\/addon-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should load the virtual module from the directory", async () => {
+    const plugin = createPlugin("native");
+    const resolved = await (plugin.resolveId as any).call(
+      {},
+      "./addon.node",
+      path.join(tempDir, "index.js"),
+      {}
+    );
+    const loaderCode = (plugin.load as any).call({}, resolved);
+
+    expect(loaderCode).toMatch(
+      /require\("\.\/native\/addon-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should reject directories outside the output directory", () => {
+    expect(() => nativeFilePlugin({ nativeDir: "../native" })).toThrow(
+      "nativeDir must be a path inside the output directory"
+    );
+    expect(() => nativeFilePlugin({ nativeDir: "/native" })).toThrow(
+      "nativeDir must be a path inside the output directory"
+    );
+  });
+
+  it("should reference the directory in a real build", async () => {
+    const entryPath = path.join(tempDir, "index.js");
+    fs.writeFileSync(
+      entryPath,
+      `const addon = require('./addon.node');
+module.exports = { addon };
+`
+    );
+
+    const result = (await build({
+      root: tempDir,
+      logLevel: "silent",
+      build: {
+        write: false,
+        ssr: true,
+        lib: { entry: entryPath, formats: ["cjs"] },
+      },
+      plugins: [nativeFilePlugin({ forced: true, nativeDir: "native" })],
+    })) as Rollup.RollupOutput | Rollup.RollupOutput[];
+
+    const output = Array.isArray(result) ? result[0] : result;
+    const nativeAsset = output.output.find((o) => o.fileName.endsWith(".node"));
+    const entryChunk = output.output.find(
+      (o): o is Rollup.OutputChunk => o.type === "chunk" && o.isEntry
+    );
+
+    expect(nativeAsset!.fileName).toMatch(/^native\/addon-[A-F0-9]{8}\.node$/);
+    expect(entryChunk!.code).toContain(`"./${nativeAsset!.fileName}"`);
+  });
+});
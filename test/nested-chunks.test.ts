@@ -0,0 +1,132 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import { build, type Plugin, type Rollup } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+import { TraceMap, originalPositionFor } from "@jridgewell/trace-mapping";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for chunks emitted in nested directories
+ *
+ * Native files are referenced relative to the output root while transforming.
+ * When a chunk ends up in a subdirectory (chunkFileNames, preserveModules or
+ * nested SSR output), renderChunk rewrites those references relative to the
+ * chunk's own directory.
+ */
+describe("Nested Chunks", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "nested-chunks-test-"));
+    fs.writeFileSync(path.join(tempDir, "addon.node"), Buffer.from("addon"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  // Transforms a module referencing addon.node and returns the plugin and the emitted name
+  function transformModule(
+    options: Parameters<typeof nativeFilePlugin>[0] = {}
+  ): { plugin: Plugin; code: string; fileName: string } {
+    const plugin = nativeFilePlugin(options) as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+    const result = (plugin.transform as any).call(
+      { parse },
+      `const { join } = require('path');
+const addon = require('./addon.node');
+const addonPath = join(__dirname, 'addon.node');`,
+      path.join(tempDir, "index.js")
+    );
+    const fileName = result.code.match(/addon-[A-F0-9]{8}\.node/)[0];
+    return { plugin, code: result.code, fileName };
+  }
+
+  function renderChunk(plugin: Plugin, code: string, chunkFileName: string) {
+    return (plugin.renderChunk as any).call({}, code, {
+      fileName: chunkFileName,
+    });
+  }
+
+  it("should leave chunks at the output root unchanged", () => {
+    const { plugin, code } = transformModule();
+
+    expect(renderChunk(plugin, code, "index.js")).toBeNull();
+  });
+
+  it("should rewrite requires relative to the chunk directory", () => {
+    const { plugin, code, fileName } = transformModule();
+
+    const result = renderChunk(plugin, code, "chunks/index.js");
+
+    expect(result.code).toContain(`require("../${fileName}")`);
+    expect(result.code).toContain(`join(__dirname, "../${fileName}")`);
+  });
+
+  it("should keep references into nativeDir relative", () => {
+    const { plugin, code, fileName } = transformModule({ nativeDir: "native" });
+
+    const deeper = renderChunk(plugin, code, "server/chunks/index.js");
+    const sibling = renderChunk(plugin, code, "native/index.js");
+
+    expect(deeper.code).toContain(`require("../../native/${fileName}")`);
+    expect(sibling.code).toContain(`require("./${fileName}")`);
+    expect(sibling.code).toContain(`join(__dirname, "${fileName}")`);
+  });
+
+  it("should return a source map for the rewritten chunk", () => {
+    const { plugin, code } = transformModule();
+
+    const result = renderChunk(plugin, code, "chunks/index.js");
+    const line = result.code
+      .split("\n")
+      .findIndex((l: string) => l.includes("addonPath"));
+    const position = originalPositionFor(new TraceMap(result.map), {
+      line: line + 1,
+      column: 0,
+    });
+
+    expect(position.line).toBe(3);
+  });
+
+  it("should reference the native file from chunks in subdirectories", async () => {
+    const entryPath = path.join(tempDir, "index.js");
+    fs.writeFileSync(
+      entryPath,
+      `const addon = require('./addon.node');
+module.exports = { addon };
+`
+    );
+
+    const result = (await build({
+      root: tempDir,
+      logLevel: "silent",
+      build: {
+        write: false,
+        ssr: true,
+        lib: { entry: entryPath, formats: ["cjs"] },
+        rollupOptions: {
+          output: { entryFileNames: "server/entries/[name].js" },
+        },
+      },
+      plugins: [nativeFilePlugin({ forced: true })],
+    })) as Rollup.RollupOutput | Rollup.RollupOutput[];
+
+    const output = Array.isArray(result) ? result[0] : result;
+    const nativeAsset = output.output.find((o) => o.fileName.endsWith(".node"));
+    const entryChunk = output.output.find(
+      (o): o is Rollup.OutputChunk => o.type === "chunk" && o.isEntry
+    );
+
+    expect(entryChunk!.fileName).toBe("server/entries/index.js");
+    expect(entryChunk!.code).toContain(`"../../${nativeAsset!.fileName}"`);
+  });
+});
@@ -448,7 +448,7 @@ describe("node-gyp-build Support", () => {
       expect(result).toBeNull();
     });
 
-    it("should not transform in dev mode by default", () => {
+    it("should rewrite to the original binary in dev mode by default", () => {
       const plugin = nativeFilePlugin() as Plugin;
 
       (plugin.configResolved as any)({
@@ -473,7 +473,11 @@ describe("node-gyp-build Support", () => {
       const context = { parse };
       const result = (plugin.transform as any).call(context, code, jsFilePath);
 
-      expect(result).toBeNull();
+      expect(result).toBeDefined();
+      expect(result.code).toContain(
+        JSON.stringify(path.join(prebuildsDir, "binding.node"))
+      );
+      expect(result.code).not.toMatch(/binding-[A-F0-9]{8}\.node/);
     });
 
     it("should transform in dev mode when forced", () => {
@@ -1736,6 +1740,90 @@ module.exports = { doSomething };`;
     });
   });
 
+  describe("Path Calls", () => {
+    // Creates prebuilds/<platform>-<arch>/binding.node and transforms the code
+    function transformPathCall(code: string): { code: string } | null {
+      const plugin = nativeFilePlugin() as Plugin;
+      (plugin.configResolved as any)({
+        command: "build",
+        mode: "production",
+      });
+
+      const prebuildsDir = path.join(
+        tempDir,
+        "prebuilds",
+        `${platform}-${arch}`
+      );
+      fs.mkdirSync(prebuildsDir, { recursive: true });
+      fs.writeFileSync(path.join(prebuildsDir, "binding.node"), "binding");
+
+      return (plugin.transform as any).call(
+        { parse },
+        code,
+        path.join(tempDir, "index.js")
+      );
+    }
+
+    it("should rewrite nodeGypBuild.path(__dirname) and the require of its result", () => {
+      const code = `const nodeGypBuild = require('node-gyp-build');
+const bindingPath = nodeGypBuild.path(__dirname);
+module.exports = require(bindingPath);`;
+      const result = transformPathCall(code);
+
+      expect(result!.code).not.toContain(".path(__dirname)");
+      expect(result!.code).toMatch(
+        /const bindingPath = "\.\/binding-[A-F0-9]{8}\.node";/
+      );
+      expect(result!.code).toMatch(
+        /module\.exports = require\("\.\/binding-[A-F0-9]{8}\.node"\);/
+      );
+      expect(result!.code).not.toContain("node-gyp-build");
+      expect(() => parse(result!.code)).not.toThrow();
+    });
+
+    it("should keep the loader while other references remain", () => {
+      const result =
+        transformPathCall(`const nodeGypBuild = require('node-gyp-build'), fs = require('fs');
+const bindingPath = nodeGypBuild.path(__dirname);
+module.exports = { binding: require(bindingPath), load: nodeGypBuild };`);
+
+      expect(result!.code).toContain(
+        "const nodeGypBuild = require('node-gyp-build'), fs = require('fs');"
+      );
+      expect(() => parse(result!.code)).not.toThrow();
+    });
+
+    it("should remove only the loader declarator from a declaration", () => {
+      const result =
+        transformPathCall(`const fs = require('fs'), nodeGypBuild = require('node-gyp-build');
+module.exports = require(nodeGypBuild.path(__dirname));`);
+
+      expect(result!.code).toContain("const fs = require('fs');");
+      expect(result!.code).not.toContain("node-gyp-build");
+      expect(() => parse(result!.code)).not.toThrow();
+    });
+
+    it("should rewrite require('node-gyp-build').resolve(__dirname)", () => {
+      const result = transformPathCall(
+        `module.exports = { path: require('node-gyp-build').resolve(__dirname) };`
+      );
+
+      expect(result!.code).toMatch(
+        /module\.exports = \{ path: "\.\/binding-[A-F0-9]{8}\.node" \};/
+      );
+    });
+
+    it("should rewrite require(load.path(...)) as a whole", () => {
+      const result = transformPathCall(
+        `module.exports = require(require('node-gyp-build').path(__dirname));`
+      );
+
+      expect(result!.code).toMatch(
+        /^module\.exports = require\("\.\/binding-[A-F0-9]{8}\.node"\);$/
+      );
+    });
+  });
+
   describe("Import Removal", () => {
     it("should remove ES6 import of node-gyp-build when all usages are replaced", () => {
       const plugin = nativeFilePlugin() as Plugin;
@@ -1832,6 +1920,7 @@ module.exports = { binding };`;
 
       // Should still contain other requires
       expect(result.code).toContain("require('path')");
+      expect(result.code).not.toContain("const ;");
 
       // Should contain the transformed code
       expect(result.code).toContain("binding-");
@@ -0,0 +1,238 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) =>
+  acornParse(code, { ecmaVersion: "latest", sourceType: "module" });
+
+/**
+ * Tests for @mapbox/node-pre-gyp support
+ *
+ * Packages like sqlite3 and bcrypt load their binary with
+ * binary.find(path.resolve(path.join(__dirname, '../package.json'))), which
+ * expands the binary.module_path template of package.json for the running
+ * Node.js. The plugin expands it for the build target instead.
+ */
+describe("node-pre-gyp Support", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "node-pre-gyp-test-"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  // Writes a file, creating its directory
+  function writeFile(relativePath: string, content: string): string {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  // Writes package.json with a binary section
+  function writePackage(binary: Record<string, unknown>): void {
+    writeFile(
+      "node_modules/sqlite3/package.json",
+      JSON.stringify({ name: "sqlite3", version: "5.1.7", binary })
+    );
+  }
+
+  function transform(
+    code: string,
+    options: Parameters<typeof nativeFilePlugin>[0] = {}
+  ): { code: string } | null {
+    const plugin = nativeFilePlugin({
+      target: { platform: "linux", arch: "x64", libc: "glibc" },
+      ...options,
+    }) as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+    return (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "node_modules/sqlite3/lib/sqlite3-binding.js")
+    );
+  }
+
+  const sqlite3Binding = `var binary = require('@mapbox/node-pre-gyp');
+var path = require('path');
+var binding_path = binary.find(path.resolve(path.join(__dirname,'../package.json')));
+var binding = require(binding_path);
+module.exports = exports = binding;`;
+
+  it("should expand an N-API module_path and replace binary.find", () => {
+    writePackage({
+      module_name: "node_sqlite3",
+      module_path:
+        "./lib/binding/napi-v{napi_build_version}-{platform}-{libc}-{arch}",
+      napi_versions: [3, 6],
+    });
+    writeFile(
+      "node_modules/sqlite3/lib/binding/napi-v6-linux-glibc-x64/node_sqlite3.node",
+      "napi6"
+    );
+    writeFile(
+      "node_modules/sqlite3/lib/binding/napi-v6-linux-musl-x64/node_sqlite3.node",
+      "musl"
+    );
+
+    const result = transform(sqlite3Binding);
+
+    expect(result!.code).not.toContain("binary.find");
+    expect(result!.code).toMatch(
+      /var binding_path = "\.\/sqlite3-node_sqlite3-[A-F0-9]{8}\.node";/
+    );
+    expect(result!.code).toMatch(
+      /var binding = require\("\.\/sqlite3-node_sqlite3-[A-F0-9]{8}\.node"\);/
+    );
+  });
+
+  it("should drop the node-pre-gyp require once find is replaced", () => {
+    writePackage({
+      module_name: "addon",
+      module_path: "./lib/binding/{platform}-{arch}",
+    });
+    writeFile("node_modules/sqlite3/lib/binding/linux-x64/addon.node", "x64");
+
+    const result = transform(sqlite3Binding);
+
+    expect(result!.code).not.toContain("node-pre-gyp");
+    expect(result!.code).toContain("var path = require('path');");
+    expect(() => parse(result!.code)).not.toThrow();
+
+    const esm = transform(`import binary from '@mapbox/node-pre-gyp';
+import path from 'path';
+import { fileURLToPath } from 'url';
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+export default binary.find(path.resolve(path.join(__dirname, '../package.json')));`);
+
+    expect(esm!.code).toMatch(
+      /export default "\.\/sqlite3-addon-[A-F0-9]{8}\.node";/
+    );
+    expect(esm!.code).not.toContain("node-pre-gyp");
+  });
+
+  it("should keep the node-pre-gyp require when find can't be resolved", () => {
+    writePackage({
+      module_name: "addon",
+      module_path: "./lib/binding/{platform}-{arch}",
+    });
+
+    const result = transform(sqlite3Binding);
+
+    expect(result?.code ?? sqlite3Binding).toContain(
+      "var binary = require('@mapbox/node-pre-gyp');"
+    );
+  });
+
+  it("should expand the Node.js ABI of the target", () => {
+    writePackage({
+      module_name: "addon",
+      module_path: "./lib/binding/{node_abi}-{platform}-{arch}",
+    });
+    writeFile(
+      "node_modules/sqlite3/lib/binding/node-v115-linux-x64/addon.node",
+      "abi115"
+    );
+
+    const result = transform(sqlite3Binding, {
+      target: {
+        platform: "linux",
+        arch: "x64",
+        runtime: { name: "node", version: "20.11.0" },
+      },
+    });
+
+    expect(result!.code).toMatch(
+      /require\("\.\/sqlite3-addon-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should expand the Electron version for Electron targets", () => {
+    writePackage({
+      module_name: "addon",
+      module_path: "./lib/binding/{node_abi}-{platform}-{arch}",
+    });
+    writeFile(
+      "node_modules/sqlite3/lib/binding/electron-v31.2-darwin-arm64/addon.node",
+      "electron"
+    );
+
+    const result = transform(sqlite3Binding, {
+      target: {
+        platform: "darwin",
+        arch: "arm64",
+        runtime: { name: "electron", version: "31.2.0" },
+      },
+    });
+
+    expect(result!.code).toMatch(
+      /require\("\.\/sqlite3-addon-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should replace require(binary.find(...)) and ES imports", () => {
+    writePackage({
+      module_name: "addon",
+      module_path: "./lib/binding/napi-v{napi_build_version}",
+      napi_versions: [3],
+    });
+    writeFile("node_modules/sqlite3/lib/binding/napi-v3/addon.node", "napi3");
+
+    const inline = transform(`const path = require('path');
+module.exports = require(require('@mapbox/node-pre-gyp').find(path.resolve(path.join(__dirname, '../package.json'))));`);
+
+    expect(inline!.code).toMatch(
+      /module\.exports = require\("\.\/sqlite3-addon-[A-F0-9]{8}\.node"\);/
+    );
+
+    const esm = transform(`import binary from '@mapbox/node-pre-gyp';
+import path from 'path';
+import { fileURLToPath } from 'url';
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const bindingPath = binary.find(path.resolve(path.join(__dirname, '../package.json')));
+export default require(bindingPath);`);
+
+    expect(esm!.code).toMatch(
+      /createRequire\(import\.meta\.url\)\("\.\/sqlite3-addon-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should fail in strict mode when no binary matches the target", () => {
+    writePackage({
+      module_name: "node_sqlite3",
+      module_path: "./lib/binding/napi-v{napi_build_version}-{platform}-{arch}",
+      napi_versions: [6],
+    });
+
+    const plugin = nativeFilePlugin({
+      target: { platform: "linux", arch: "arm64" },
+      strict: true,
+    }) as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+    expect(() =>
+      (plugin.transform as any).call(
+        {
+          parse,
+          error: (message: string) => {
+            throw new Error(message);
+          },
+        },
+        sqlite3Binding,
+        path.join(tempDir, "node_modules/sqlite3/lib/sqlite3-binding.js")
+      )
+    ).toThrow(
+      /3:20 \(node-pre-gyp\) tried: .*napi-v6-linux-arm64[\\/]node_sqlite3\.node/
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for node-gyp-build-optional-packages support
+ *
+ * The fork of node-gyp-build used by lmdb and msgpackr-extract looks for a
+ * platform package (@lmdb/lmdb-linux-x64) holding prebuildify-tagged binaries,
+ * then falls back to node-gyp-build's prebuilds/ and build/ lookup.
+ */
+describe("node-gyp-build-optional-packages Support", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "optional-packages-test-"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  // Writes a file, creating its directory
+  function writeFile(relativePath: string, content: string): string {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  function transform(code: string, packageDir: string): string | undefined {
+    const plugin = nativeFilePlugin({
+      target: { platform: "linux", arch: "x64", libc: "glibc" },
+    }) as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+    return (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, packageDir, "index.js")
+    )?.code;
+  }
+
+  const lmdbLoader = `const loadNAPI = require('node-gyp-build-optional-packages');
+module.exports = loadNAPI(__dirname);`;
+
+  beforeEach(() => {
+    writeFile("node_modules/lmdb/package.json", `{"name":"lmdb"}`);
+  });
+
+  it("should load the binary from the platform package", () => {
+    writeFile("node_modules/@lmdb/lmdb-linux-x64/package.json", "{}");
+    writeFile("node_modules/@lmdb/lmdb-linux-x64/node.napi.musl.node", "musl");
+    writeFile(
+      "node_modules/@lmdb/lmdb-linux-x64/node.napi.glibc.node",
+      "glibc"
+    );
+
+    const code = transform(lmdbLoader, "node_modules/lmdb");
+
+    expect(code).toMatch(
+      /module\.exports = require\("\.\/lmdb-lmdb-linux-x64-node\.napi\.glibc-[A-F0-9]{8}\.node"\);/
+    );
+    expect(code).not.toContain("node-gyp-build-optional-packages");
+  });
+
+  it("should name platform packages of scoped packages after the scope", () => {
+    writeFile(
+      "node_modules/@msgpackr/extract/package.json",
+      `{"name":"@msgpackr/extract"}`
+    );
+    writeFile(
+      "node_modules/@msgpackr/extract-linux-x64/node.napi.glibc.node",
+      "extract"
+    );
+
+    const code = transform(
+      `module.exports = require('node-gyp-build-optional-packages')(__dirname);`,
+      "node_modules/@msgpackr/extract"
+    );
+
+    expect(code).toMatch(
+      /require\("\.\/msgpackr-extract-linux-x64-node\.napi\.glibc-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should prefer the platform package over prebuilds/", () => {
+    writeFile("node_modules/@lmdb/lmdb-linux-x64/node.napi.node", "package");
+    writeFile("node_modules/lmdb/prebuilds/linux-x64/node.napi.node", "local");
+
+    expect(transform(lmdbLoader, "node_modules/lmdb")).toMatch(
+      /require\("\.\/lmdb-lmdb-linux-x64-node\.napi-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should fall back to prebuilds/ without a platform package", () => {
+    writeFile("node_modules/lmdb/prebuilds/linux-x64/node.napi.node", "local");
+
+    expect(transform(lmdbLoader, "node_modules/lmdb")).toMatch(
+      /require\("\.\/lmdb-node\.napi-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should not look for platform packages with node-gyp-build", () => {
+    writeFile("node_modules/@lmdb/lmdb-linux-x64/node.napi.node", "package");
+
+    expect(
+      transform(
+        `module.exports = require('node-gyp-build')(__dirname);`,
+        "node_modules/lmdb"
+      )
+    ).toBeUndefined();
+  });
+});
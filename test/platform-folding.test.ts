@@ -0,0 +1,184 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for the `foldPlatformChecks` option
+ *
+ * NAPI-RS loaders branch on process.platform, process.arch and isMusl() to
+ * require the package for the running platform. With the option, the checks
+ * are evaluated for the target and only the branch that runs is kept, so the
+ * output has no requires of packages for other platforms.
+ */
+describe("Platform Check Folding", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "platform-folding-test-"));
+    fs.mkdirSync(path.join(tempDir, "node_modules/@scope/pkg-linux-x64-musl"), {
+      recursive: true,
+    });
+    fs.writeFileSync(
+      path.join(tempDir, "node_modules/@scope/pkg-linux-x64-musl/package.json"),
+      JSON.stringify({ name: "@scope/pkg-linux-x64-musl", main: "pkg.node" })
+    );
+    fs.writeFileSync(
+      path.join(tempDir, "node_modules/@scope/pkg-linux-x64-musl/pkg.node"),
+      "musl"
+    );
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function transform(
+    code: string,
+    options: Parameters<typeof nativeFilePlugin>[0]
+  ): string | undefined {
+    const plugin = nativeFilePlugin({
+      target: { platform: "linux", arch: "x64", libc: "musl" },
+      ...options,
+    }) as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+    return (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "index.js")
+    )?.code;
+  }
+
+  // Shape of the loaders generated by NAPI-RS v2
+  const switchLoader = `const { platform, arch } = process
+let nativeBinding = null
+function isMusl() {
+  const { glibcVersionRuntime } = process.report.getReport().header
+  return !glibcVersionRuntime
+}
+switch (platform) {
+  case 'win32':
+    switch (arch) {
+      case 'x64':
+        nativeBinding = require('@scope/pkg-win32-x64-msvc')
+        break
+      default:
+        throw new Error(\`Unsupported architecture on Windows: \${arch}\`)
+    }
+    break
+  case 'linux':
+    switch (arch) {
+      case 'x64':
+        if (isMusl()) {
+          nativeBinding = require('@scope/pkg-linux-x64-musl')
+        } else {
+          nativeBinding = require('@scope/pkg-linux-x64-gnu')
+        }
+        break
+      case 'arm64':
+        nativeBinding = require('@scope/pkg-linux-arm64-gnu')
+        break
+      default:
+        throw new Error(\`Unsupported architecture on Linux: \${arch}\`)
+    }
+    break
+  default:
+    throw new Error(\`Unsupported OS: \${platform}, architecture: \${arch}\`)
+}
+module.exports = nativeBinding`;
+
+  it("should keep only the switch cases for the target", () => {
+    const code = transform(switchLoader, { foldPlatformChecks: true })!;
+
+    expect(code).toMatch(
+      /nativeBinding = require\("\.\/scope-pkg-linux-x64-musl-pkg-[A-F0-9]{8}\.node"\)/
+    );
+    expect(code).not.toContain("win32");
+    expect(code).not.toContain("linux-x64-gnu");
+    expect(code).not.toContain("arm64");
+    expect(code).not.toContain("Unsupported");
+    expect(() => parse(code)).not.toThrow();
+  });
+
+  it("should fold if chains on process.platform and process.arch", () => {
+    const code = transform(
+      `let nativeBinding
+if (process.platform === 'darwin') {
+  nativeBinding = require('@scope/pkg-darwin-universal')
+} else if (process.platform === 'linux' && process.arch === 'x64') {
+  nativeBinding = isMusl() ? require('@scope/pkg-linux-x64-musl') : require('@scope/pkg-linux-x64-gnu')
+} else if (process.platform === 'linux') {
+  nativeBinding = require('@scope/pkg-linux-arm64-gnu')
+}
+module.exports = nativeBinding`,
+      { foldPlatformChecks: true }
+    )!;
+
+    expect(code).toMatch(
+      /nativeBinding = \(require\("\.\/scope-pkg-linux-x64-musl-pkg-[A-F0-9]{8}\.node"\)\)/
+    );
+    expect(code).not.toContain("darwin");
+    expect(code).not.toContain("gnu");
+    expect(() => parse(code)).not.toThrow();
+  });
+
+  it("should leave conditions that don't only depend on the target", () => {
+    const code = transform(
+      `const binding = process.env.BINDING || process.platform === 'win32' ? require('./win.node') : require('@scope/pkg-linux-x64-musl')`,
+      { foldPlatformChecks: true }
+    )!;
+
+    expect(code).toContain("process.env.BINDING || process.platform");
+    expect(code).toContain("require('./win.node')");
+  });
+
+  it("should not fold parameters and variables that shadow the destructured names", () => {
+    const code = transform(
+      `const { platform } = process
+function label(platform) {
+  switch (platform) {
+    case 'win32':
+      return 'windows'
+    default:
+      return 'other'
+  }
+}
+function local() {
+  const platform = 'win32'
+  return platform === 'win32' ? 'windows' : 'other'
+}
+const binding = platform === 'linux' ? require('@scope/pkg-linux-x64-musl') : null
+module.exports = { label, local, binding }`,
+      { foldPlatformChecks: true }
+    )!;
+
+    expect(code).toContain("switch (platform) {");
+    expect(code).toContain("return 'windows'");
+    expect(code).toContain("return platform === 'win32' ? 'windows' : 'other'");
+    expect(code).toMatch(
+      /const binding = \(require\("\.\/scope-pkg-linux-x64-musl-pkg-[A-F0-9]{8}\.node"\)\)/
+    );
+    expect(() => parse(code)).not.toThrow();
+  });
+
+  it("should not fold without the option or with platforms", () => {
+    for (const options of [
+      {},
+      { foldPlatformChecks: true, platforms: ["linux-x64-musl", "win32-x64"] },
+    ]) {
+      // Modules without anything to rewrite come back as null
+      const code = transform(switchLoader, options) ?? switchLoader;
+
+      expect(code).toContain("require('@scope/pkg-win32-x64-msvc')");
+      expect(code).toContain("require('@scope/pkg-linux-x64-gnu')");
+    }
+  });
+});
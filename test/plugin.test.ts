@@ -1,4 +1,4 @@
-import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import { describe, expect, it, beforeEach, afterEach, vi } from "vitest";
 import nativeFilePlugin from "../src/index.js";
 import type { Plugin } from "vite";
 import fs from "node:fs";
@@ -141,7 +141,7 @@ describe("nativeFilePlugin", () => {
       expect(result).toBeNull();
     });
 
-    it("should not process files in dev mode by default", async () => {
+    it("should reference original files in dev mode by default", async () => {
       const plugin = nativeFilePlugin() as Plugin;
 
       expect(plugin.configResolved).toBeDefined();
@@ -164,6 +164,33 @@ describe("nativeFilePlugin", () => {
         {}
       );
 
+      expect(result).toBe(`\0native:${nodeFilePath}`);
+
+      const loadResult = await (plugin.load as any).call({} as any, result);
+      expect(loadResult).toContain(JSON.stringify(nodeFilePath));
+      expect(loadResult).not.toMatch(/test-[A-F0-9]{8}\.node/);
+    });
+
+    it("should not process files when explicitly disabled", async () => {
+      const plugin = nativeFilePlugin({ forced: false }) as Plugin;
+
+      (plugin.configResolved as any)({
+        command: "serve",
+        mode: "development",
+      });
+
+      const nodeFilePath = path.join(tempDir, "test.node");
+      fs.writeFileSync(nodeFilePath, Buffer.from("test"));
+
+      const importerPath = path.join(tempDir, "index.js");
+
+      const result = await (plugin.resolveId as any).call(
+        {} as any,
+        "./test.node",
+        importerPath,
+        {}
+      );
+
       expect(result).toBeNull();
     });
 
@@ -577,6 +604,132 @@ describe("nativeFilePlugin", () => {
       expect(resultB.code).toContain("binding-");
       expect(resultB.code).toContain(".node-x64");
     });
+
+    it("should match glob patterns relative to the package root", () => {
+      const plugin = nativeFilePlugin({
+        forced: true,
+        additionalNativeFiles: [
+          {
+            package: "@scope/native-lib",
+            fileNames: ["**/*.node-*", "lib/*.{so,dylib}"],
+          },
+        ],
+      }) as Plugin;
+
+      (plugin.configResolved as any)({
+        command: "build",
+        mode: "production",
+      });
+
+      const pkgDir = path.join(tempDir, "node_modules", "@scope", "native-lib");
+      fs.mkdirSync(path.join(pkgDir, "build", "darwin"), { recursive: true });
+      fs.mkdirSync(path.join(pkgDir, "lib"), { recursive: true });
+      fs.writeFileSync(
+        path.join(pkgDir, "build", "darwin", "addon.node-macos"),
+        Buffer.from("macos")
+      );
+      fs.writeFileSync(path.join(pkgDir, "lib", "addon.so"), Buffer.from("so"));
+      fs.writeFileSync(path.join(pkgDir, "addon.so"), Buffer.from("root so"));
+
+      const code = `const mac = require("./build/darwin/addon.node-macos");
+const so = require("./lib/addon.so");
+const rootSo = require("./addon.so");`;
+
+      const context = { parse };
+      const result = (plugin.transform as any).call(
+        context,
+        code,
+        path.join(pkgDir, "index.js")
+      );
+
+      expect(result.code).toMatch(
+        /require\("\.\/scope-native-lib-addon-[A-F0-9]{8}\.node-macos"\)/
+      );
+      expect(result.code).toMatch(
+        /require\("\.\/scope-native-lib-addon-[A-F0-9]{8}\.so"\)/
+      );
+      // lib/*.so doesn't match files at the package root
+      expect(result.code).toContain(`require("./addon.so")`);
+    });
+
+    it("should handle files of workspace packages outside node_modules", () => {
+      const plugin = nativeFilePlugin({
+        forced: true,
+        additionalNativeFiles: [
+          { package: "@monorepo/native", fileNames: ["prebuilt/*.dylib"] },
+        ],
+      }) as Plugin;
+
+      (plugin.configResolved as any)({
+        command: "build",
+        mode: "production",
+      });
+
+      const pkgDir = path.join(tempDir, "packages", "native");
+      fs.mkdirSync(path.join(pkgDir, "prebuilt"), { recursive: true });
+      fs.mkdirSync(path.join(pkgDir, "src"), { recursive: true });
+      fs.writeFileSync(
+        path.join(pkgDir, "package.json"),
+        JSON.stringify({ name: "@monorepo/native" })
+      );
+      fs.writeFileSync(
+        path.join(pkgDir, "prebuilt", "addon.dylib"),
+        Buffer.from("dylib")
+      );
+
+      const context = { parse };
+      const result = (plugin.transform as any).call(
+        context,
+        `const addon = require("../prebuilt/addon.dylib");`,
+        path.join(pkgDir, "src", "index.js")
+      );
+
+      expect(result.code).toMatch(/require\("\.\/addon-[A-F0-9]{8}\.dylib"\)/);
+    });
+
+    it("should read the package.json of a workspace package once", async () => {
+      const plugin = nativeFilePlugin({
+        forced: true,
+        additionalNativeFiles: [
+          { package: "@monorepo/native", fileNames: ["*.dylib"] },
+        ],
+      }) as Plugin;
+      (plugin.configResolved as any)({
+        command: "build",
+        mode: "production",
+      });
+
+      const pkgDir = path.join(tempDir, "packages", "native");
+      fs.mkdirSync(path.join(pkgDir, "src", "lib"), { recursive: true });
+      const packageJsonPath = path.join(pkgDir, "package.json");
+      fs.writeFileSync(
+        packageJsonPath,
+        JSON.stringify({ name: "@monorepo/native" })
+      );
+
+      const readFileSync = vi.spyOn(fs, "readFileSync");
+      try {
+        for (const file of ["src/a.js", "src/b.js", "src/lib/c.js"]) {
+          await (plugin.resolveId as any).call(
+            {},
+            "./helper.js",
+            path.join(pkgDir, file),
+            {}
+          );
+          (plugin.transform as any).call(
+            { parse },
+            `export const value = 1;`,
+            path.join(pkgDir, file)
+          );
+        }
+
+        expect(
+          readFileSync.mock.calls.filter(([file]) => file === packageJsonPath)
+        ).toHaveLength(1);
+      } finally {
+        readFileSync.mockRestore();
+      }
+    });
   });
 
   describe("Module Loading", () => {
@@ -0,0 +1,161 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for pnpm store layouts and workspace links
+ *
+ * Native files are identified by their real path, package names come from the
+ * last node_modules segment, and dependencies are resolved from the real
+ * location of a module like Node.js does.
+ */
+describe("pnpm and Workspace Links", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), "pnpm-test-"))
+    );
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  // Writes a file, creating its directory
+  function writeFile(relativePath: string, content: string): string {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  // Links node_modules/<name> to a directory, like pnpm and workspaces do
+  function link(name: string, relativeTarget: string): void {
+    const linkPath = path.join(tempDir, "node_modules", name);
+    fs.mkdirSync(path.dirname(linkPath), { recursive: true });
+    fs.symlinkSync(path.join(tempDir, relativeTarget), linkPath, "dir");
+  }
+
+  function createPlugin(): Plugin {
+    const plugin = nativeFilePlugin({
+      target: { platform: "linux", arch: "x64", libc: "glibc" },
+    }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      root: tempDir,
+    });
+    return plugin;
+  }
+
+  function emitFiles(plugin: Plugin): any[] {
+    const emittedFiles: any[] = [];
+    (plugin.generateBundle as any).call(
+      {
+        emitFile: (file: any) => emittedFiles.push(file),
+        error: (message: string) => {
+          throw new Error(message);
+        },
+      },
+      {},
+      {},
+      false
+    );
+    return emittedFiles;
+  }
+
+  const storeDir =
+    "node_modules/.pnpm/better-sqlite3@11.0.0/node_modules/better-sqlite3";
+
+  beforeEach(() => {
+    writeFile(`${storeDir}/package.json`, `{"name":"better-sqlite3"}`);
+    writeFile(`${storeDir}/build/Release/better_sqlite3.node`, "sqlite");
+    writeFile(
+      `${storeDir}/lib/database.js`,
+      `module.exports = require('bindings')('better_sqlite3.node');`
+    );
+    link("better-sqlite3", storeDir);
+  });
+
+  it("should name files after the package in pnpm's store", () => {
+    const plugin = createPlugin();
+    const result = (plugin.transform as any).call(
+      { parse },
+      `module.exports = require('bindings')('better_sqlite3.node');`,
+      path.join(tempDir, storeDir, "lib", "database.js")
+    );
+
+    expect(result.code).toMatch(
+      /require\("\.\/better-sqlite3-better_sqlite3-[A-F0-9]{8}\.node"\)/
+    );
+    expect(result.code).not.toContain(".pnpm");
+  });
+
+  it("should emit a file reached through a link and its real path once", () => {
+    const plugin = createPlugin();
+    const code = `module.exports = require('bindings')('better_sqlite3.node');`;
+    for (const id of [
+      path.join(tempDir, "node_modules/better-sqlite3/lib/database.js"),
+      path.join(tempDir, storeDir, "lib/database.js"),
+    ]) {
+      (plugin.transform as any).call({ parse }, code, id);
+    }
+
+    const emittedFiles = emitFiles(plugin);
+
+    expect(emittedFiles).toHaveLength(1);
+    expect(emittedFiles[0].source.toString()).toBe("sqlite");
+  });
+
+  it("should resolve dependencies from the real location of a module", () => {
+    // pnpm only links a package's dependencies next to it in the store
+    const libsqlDir = "node_modules/.pnpm/libsql@0.4.0/node_modules";
+    writeFile(`${libsqlDir}/libsql/package.json`, `{"name":"libsql"}`);
+    writeFile(
+      `${libsqlDir}/@libsql/linux-x64-gnu/package.json`,
+      `{"name":"@libsql/linux-x64-gnu","main":"index.node"}`
+    );
+    writeFile(`${libsqlDir}/@libsql/linux-x64-gnu/index.node`, "libsql");
+    const linkedId = path.join(tempDir, "node_modules/libsql/index.js");
+    writeFile(`${libsqlDir}/libsql/index.js`, "");
+    link("libsql", `${libsqlDir}/libsql`);
+
+    const plugin = createPlugin();
+    const result = (plugin.transform as any).call(
+      { parse },
+      `const nativeBinding = require('@libsql/linux-x64-gnu');
+module.exports = { nativeBinding, file: 'libsql.linux-x64-gnu.node' };`,
+      linkedId
+    );
+
+    expect(result.code).toMatch(
+      /require\("\.\/libsql-linux-x64-gnu-index-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should follow workspace links to native files", async () => {
+    writeFile("packages/native/package.json", `{"name":"@org/native"}`);
+    const nativePath = writeFile("packages/native/addon.node", "workspace");
+    link("@org/native", "packages/native");
+
+    const plugin = createPlugin();
+    const resolved = await (plugin.resolveId as any).call(
+      {},
+      "./node_modules/@org/native/addon.node",
+      path.join(tempDir, "index.js"),
+      {}
+    );
+
+    expect(resolved).toBe(`\0native:${nativePath}`);
+  });
+});
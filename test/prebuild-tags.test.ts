@@ -0,0 +1,211 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for node-gyp-build prebuild tag matching
+ *
+ * prebuildify names binaries with tags (node.napi.node, node.abi115.node,
+ * node.napi.armv7.node, node.napi.musl.node, ...) and node-gyp-build picks
+ * the best match at runtime. The plugin applies the same rules to the build
+ * target, so the bundled binary is the one node-gyp-build would have loaded.
+ */
+describe("Prebuild Tag Matching", () => {
+  let tempDir: string;
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "prebuild-tags-test-"));
+    delete process.env.npm_config_platform;
+    delete process.env.npm_config_arch;
+    delete process.env.npm_config_libc;
+    delete process.env.npm_config_runtime;
+    delete process.env.npm_config_target;
+    delete process.env.ARM_VERSION;
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function createPrebuilds(tuple: string, fileNames: string[]): void {
+    const dir = path.join(tempDir, "prebuilds", tuple);
+    fs.mkdirSync(dir, { recursive: true });
+    for (const fileName of fileNames) {
+      fs.writeFileSync(path.join(dir, fileName), Buffer.from(fileName));
+    }
+  }
+
+  // Transforms a node-gyp-build loader and returns the bundled file's original name
+  function selectPrebuild(
+    options: Parameters<typeof nativeFilePlugin>[0],
+    logger?: { warn: (message: string) => void }
+  ): string | null {
+    const plugin = nativeFilePlugin(options) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      logger,
+    });
+
+    const code = `module.exports = require('node-gyp-build')(__dirname);`;
+    const result = (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "index.js")
+    );
+    if (!result) return null;
+
+    const emittedFiles: any[] = [];
+    (plugin.generateBundle as any).call(
+      { emitFile: (file: any) => emittedFiles.push(file) },
+      {},
+      {},
+      false
+    );
+    return emittedFiles[0].source.toString();
+  }
+
+  it("should prefer an ABI-specific build for the target runtime", () => {
+    createPrebuilds("linux-x64", [
+      "node.napi.node",
+      "node.abi108.node",
+      "node.abi115.node",
+    ]);
+
+    const selected = selectPrebuild({
+      target: {
+        platform: "linux",
+        arch: "x64",
+        runtime: { name: "node", version: "20.11.0" },
+      },
+    });
+
+    expect(selected).toBe("node.abi115.node");
+  });
+
+  it("should fall back to N-API when no ABI-specific build matches", () => {
+    createPrebuilds("linux-x64", ["node.abi108.node", "node.napi.node"]);
+
+    const selected = selectPrebuild({
+      target: {
+        platform: "linux",
+        arch: "x64",
+        runtime: { name: "node", version: "22.0.0" },
+      },
+    });
+
+    expect(selected).toBe("node.napi.node");
+  });
+
+  it("should select the build for the target libc", () => {
+    createPrebuilds("linux-x64", [
+      "node.napi.glibc.node",
+      "node.napi.musl.node",
+    ]);
+
+    expect(selectPrebuild({ target: { platform: "linux", arch: "x64" } })).toBe(
+      "node.napi.glibc.node"
+    );
+    expect(
+      selectPrebuild({
+        target: { platform: "linux", arch: "x64", libc: "musl" },
+      })
+    ).toBe("node.napi.musl.node");
+  });
+
+  it("should select the build for the target ARM version", () => {
+    createPrebuilds("linux-arm", [
+      "node.napi.armv6.node",
+      "node.napi.armv7.node",
+    ]);
+    process.env.ARM_VERSION = "7";
+
+    const selected = selectPrebuild({
+      target: { platform: "linux", arch: "arm" },
+    });
+
+    expect(selected).toBe("node.napi.armv7.node");
+  });
+
+  it("should use multi-arch tuple directories", () => {
+    createPrebuilds("darwin-x64+arm64", ["node.napi.node"]);
+
+    const selected = selectPrebuild({
+      target: { platform: "darwin", arch: "arm64" },
+    });
+
+    expect(selected).toBe("node.napi.node");
+  });
+
+  it("should prefer single-arch over multi-arch tuple directories", () => {
+    createPrebuilds("darwin-x64+arm64", ["universal.node"]);
+    createPrebuilds("darwin-arm64", ["arm64.node"]);
+
+    const selected = selectPrebuild({
+      target: { platform: "darwin", arch: "arm64" },
+    });
+
+    expect(selected).toBe("arm64.node");
+  });
+
+  it("should ignore builds for other runtimes", () => {
+    createPrebuilds("linux-x64", ["electron.abi115.node", "node.napi.node"]);
+
+    const selected = selectPrebuild({
+      target: {
+        platform: "linux",
+        arch: "x64",
+        runtime: { name: "node", version: "20.11.0" },
+      },
+    });
+
+    expect(selected).toBe("node.napi.node");
+  });
+
+  it("should warn when no prebuild matches the target", () => {
+    createPrebuilds("linux-x64", ["node.abi108.node", "node.abi115.musl.node"]);
+    const warnings: string[] = [];
+
+    const selected = selectPrebuild(
+      {
+        target: {
+          platform: "linux",
+          arch: "x64",
+          libc: "glibc",
+          runtime: { name: "node", version: "22.0.0" },
+        },
+      },
+      { warn: (message) => warnings.push(message) }
+    );
+
+    expect(selected).toBeNull();
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain("linux-x64 (node abi127, glibc)");
+    expect(warnings[0]).toContain("node.abi108.node, node.abi115.musl.node");
+  });
+
+  it("should warn when no prebuild directory matches the target", () => {
+    createPrebuilds("win32-x64", ["node.napi.node"]);
+    const warnings: string[] = [];
+
+    const selected = selectPrebuild(
+      { target: { platform: "linux", arch: "x64" } },
+      { warn: (message) => warnings.push(message) }
+    );
+
+    expect(selected).toBeNull();
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain("No prebuild directory");
+  });
+});
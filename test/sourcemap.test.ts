@@ -0,0 +1,137 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+import { TraceMap, originalPositionFor } from "@jridgewell/trace-mapping";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) =>
+  acornParse(code, { ecmaVersion: "latest", sourceType: "module" });
+
+/**
+ * Tests for source maps of transformed modules
+ *
+ * The transform splices replacements into the original code, removes
+ * node-gyp-build/bindings declarations and injects a createRequire import.
+ * The returned source map must point every unchanged token back to its
+ * original line and column, so stack traces stay accurate.
+ */
+describe("Source Maps", () => {
+  let tempDir: string;
+  const platform = process.platform;
+  const arch = process.arch;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "sourcemap-test-"));
+    const prebuildsDir = path.join(tempDir, "prebuilds", `${platform}-${arch}`);
+    fs.mkdirSync(prebuildsDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(prebuildsDir, "addon.node"),
+      Buffer.from("addon")
+    );
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function transform(code: string, fileName = "index.js") {
+    const plugin = nativeFilePlugin() as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+    return (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, fileName)
+    );
+  }
+
+  // Finds where a snippet ended up in the output and maps it back
+  function originalPositionOf(
+    result: { code: string; map: any },
+    snippet: string
+  ) {
+    const offset = result.code.indexOf(snippet);
+    expect(offset).toBeGreaterThanOrEqual(0);
+    const before = result.code.slice(0, offset).split("\n");
+    return originalPositionFor(new TraceMap(result.map), {
+      line: before.length,
+      column: before[before.length - 1].length,
+    });
+  }
+
+  function expectedPositionOf(code: string, snippet: string) {
+    const before = code.slice(0, code.indexOf(snippet)).split("\n");
+    return { line: before.length, column: before[before.length - 1].length };
+  }
+
+  it("should map code after a replaced call back to its original position", () => {
+    const code = [
+      "'use strict';",
+      "const binding = require('node-gyp-build')(__dirname);",
+      "function hello() {",
+      "  return binding.hello();",
+      "}",
+      "module.exports = { hello };",
+    ].join("\n");
+
+    const result = transform(code);
+
+    expect(result.map).toBeDefined();
+    expect(result.map.sourcesContent).toEqual([code]);
+    for (const snippet of ["binding.hello()", "module.exports", "hello }"]) {
+      const position = originalPositionOf(result, snippet);
+      expect(position).toMatchObject(expectedPositionOf(code, snippet));
+    }
+  });
+
+  it("should map the replacement itself to the replaced call", () => {
+    const code = [
+      "const path = require('path');",
+      "const binding = require('node-gyp-build')(__dirname);",
+    ].join("\n");
+
+    const result = transform(code);
+    const position = originalPositionOf(result, 'require("./addon-');
+
+    expect(position).toMatchObject(
+      expectedPositionOf(code, "require('node-gyp-build')")
+    );
+  });
+
+  it("should account for removed node-gyp-build declarations", () => {
+    const code = [
+      "const load = require('node-gyp-build');",
+      "const binding = load(__dirname);",
+      "",
+      "exports.version = binding.version;",
+    ].join("\n");
+
+    const result = transform(code);
+
+    expect(result.code).not.toContain("require('node-gyp-build')");
+    const position = originalPositionOf(result, "exports.version");
+    expect(position).toMatchObject(expectedPositionOf(code, "exports.version"));
+  });
+
+  it("should account for the injected createRequire import", () => {
+    const code = [
+      "import path from 'path';",
+      "import nodeGypBuild from 'node-gyp-build';",
+      "const binding = nodeGypBuild(__dirname);",
+      "export const hello = () => binding.hello(path.sep);",
+    ].join("\n");
+
+    const result = transform(code, "index.mjs");
+
+    expect(result.code).toContain("import { createRequire } from 'module';");
+    for (const snippet of ["export const hello", "binding.hello(path.sep)"]) {
+      const position = originalPositionOf(result, snippet);
+      expect(position).toMatchObject(expectedPositionOf(code, snippet));
+    }
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import { build, type Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for the `strict` option
+ *
+ * Unresolved native loads and modules that can't be parsed fail the build
+ * through this.error, which adds a code frame, instead of being warned about.
+ */
+describe("Strict Mode", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "strict-test-"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  // Transforms a module and returns the arguments of the this.error call, if any
+  function transform(
+    code: string,
+    strict: boolean,
+    options: Parameters<typeof nativeFilePlugin>[0] = {}
+  ): { result: unknown; error?: [string, unknown] } {
+    const plugin = nativeFilePlugin({ strict, ...options }) as Plugin;
+    (plugin.configResolved as any)({
+      command: "build",
+      mode: "production",
+      root: tempDir,
+    });
+
+    let error: [string, unknown] | undefined;
+    try {
+      const result = (plugin.transform as any).call(
+        {
+          parse,
+          error: (message: string, position: unknown) => {
+            error = [message, position];
+            throw new Error(message);
+          },
+        },
+        code,
+        path.join(tempDir, "index.js")
+      );
+      return { result };
+    } catch {
+      return { result: undefined, error };
+    }
+  }
+
+  it("should fail on unresolved loads at their position", () => {
+    const { error } = transform(
+      `const fs = require('fs');
+module.exports = require('bindings')('addon');`,
+      true
+    );
+
+    expect(error![0]).toContain("Could not resolve 1 native module load(s)");
+    expect(error![0]).toContain(
+      "2:18 (bindings) tried: build/addon.node, build/Debug/addon.node, build/Release/addon.node"
+    );
+    expect(error![1]).toEqual({ line: 2, column: 17 });
+  });
+
+  it("should fail when some platforms have no binary", () => {
+    const prebuildDir = path.join(tempDir, "prebuilds", "linux-x64");
+    fs.mkdirSync(prebuildDir, { recursive: true });
+    fs.writeFileSync(path.join(prebuildDir, "node.napi.node"), "x64");
+
+    const { error } = transform(
+      `module.exports = require('node-gyp-build')(__dirname);`,
+      true,
+      { platforms: ["linux-x64", "linux-arm64"] }
+    );
+
+    expect(error![0]).toContain("1:18 (node-gyp-build for linux-arm64)");
+  });
+
+  it("should fail on NAPI-RS packages of the target that aren't installed", () => {
+    const { error } = transform(
+      `const { existsSync } = require('fs');
+const { join } = require('path');
+module.exports = existsSync(join(__dirname, 'pkg.linux-arm64-gnu.node'))
+  ? require('./pkg.linux-arm64-gnu.node')
+  : require('@scope/pkg-linux-arm64-gnu');`,
+      true,
+      { target: { platform: "linux", arch: "arm64", libc: "glibc" } }
+    );
+
+    expect(error![0]).toContain("5:5 (napi-rs) tried: ");
+    expect(error![0]).toContain("node_modules/@scope/pkg-linux-arm64-gnu");
+  });
+
+  it("should pass NAPI-RS loaders that found a local binary", () => {
+    fs.writeFileSync(path.join(tempDir, "pkg.linux-arm64-gnu.node"), "arm64");
+
+    const { result, error } = transform(
+      `const { existsSync } = require('fs');
+const { join } = require('path');
+module.exports = existsSync(join(__dirname, 'pkg.linux-arm64-gnu.node'))
+  ? require('./pkg.linux-arm64-gnu.node')
+  : require('@scope/pkg-linux-arm64-gnu');`,
+      true,
+      { target: { platform: "linux", arch: "arm64", libc: "glibc" } }
+    );
+
+    expect(error).toBeUndefined();
+    expect((result as { code: string }).code).toMatch(
+      /require\("\.\/pkg\.linux-arm64-gnu-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should fail on modules that can't be parsed", () => {
+    const { error } = transform(`const addon = require('./addon.node'`, true);
+
+    expect(error![0]).toContain("Failed to parse");
+    expect(typeof error![1]).toBe("number");
+  });
+
+  it("should keep going without strict", () => {
+    expect(
+      transform(`module.exports = require('bindings')('addon');`, false).error
+    ).toBeUndefined();
+    expect(
+      transform(`const addon = require('./addon.node'`, false).error
+    ).toBeUndefined();
+  });
+
+  it("should fail a real build with a code frame", async () => {
+    const entryPath = path.join(tempDir, "index.js");
+    fs.writeFileSync(
+      entryPath,
+      `module.exports = require('node-gyp-build')(__dirname);\n`
+    );
+
+    const error = await build({
+      root: tempDir,
+      logLevel: "silent",
+      build: {
+        write: false,
+        ssr: true,
+        lib: { entry: entryPath, formats: ["cjs"] },
+      },
+      plugins: [nativeFilePlugin({ forced: true, strict: true })],
+    }).catch((error: { message: string; frame?: string }) => error);
+
+    expect((error as Error).message).toContain("(node-gyp-build)");
+    expect((error as { frame?: string }).frame).toContain(
+      "require('node-gyp-build')(__dirname)"
+    );
+  });
+});
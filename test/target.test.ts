@@ -0,0 +1,173 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for build target selection
+ *
+ * By default native binaries are selected for the host platform/arch. The
+ * `target` option (or npm_config_platform / npm_config_arch) lets CI on one
+ * platform produce bundles for another, as long as the matching prebuilds
+ * are present in node_modules.
+ */
+describe("Build Target", () => {
+  let tempDir: string;
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "target-test-"));
+    delete process.env.npm_config_platform;
+    delete process.env.npm_config_arch;
+    delete process.env.npm_config_libc;
+    delete process.env.npm_config_runtime;
+    delete process.env.npm_config_target;
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  // Creates prebuilds for the host and for a foreign linux-arm64/linux-x64 tuple
+  function createPrebuilds(): string {
+    const foreignTuple =
+      process.platform === "linux" && process.arch === "arm64"
+        ? "linux-x64"
+        : "linux-arm64";
+    const hostDir = path.join(
+      tempDir,
+      "prebuilds",
+      `${process.platform}-${process.arch}`
+    );
+    const foreignDir = path.join(tempDir, "prebuilds", foreignTuple);
+    fs.mkdirSync(hostDir, { recursive: true });
+    fs.mkdirSync(foreignDir, { recursive: true });
+    fs.writeFileSync(path.join(hostDir, "host.node"), Buffer.from("host"));
+    fs.writeFileSync(
+      path.join(foreignDir, "foreign.node"),
+      Buffer.from("foreign")
+    );
+    return foreignTuple;
+  }
+
+  describe("node-gyp-build resolution", () => {
+    it("should select prebuilds for the host by default", () => {
+      createPrebuilds();
+      const plugin = nativeFilePlugin() as Plugin;
+      (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+      const code = `module.exports = require('node-gyp-build')(__dirname);`;
+      const result = (plugin.transform as any).call(
+        { parse },
+        code,
+        path.join(tempDir, "index.js")
+      );
+
+      expect(result).toBeDefined();
+      expect(result.code).toContain("host-");
+      expect(result.code).not.toContain("foreign-");
+    });
+
+    it("should select prebuilds for the configured target", () => {
+      const foreignTuple = createPrebuilds();
+      const [platform, arch] = foreignTuple.split("-");
+      const plugin = nativeFilePlugin({
+        target: { platform, arch },
+      }) as Plugin;
+      (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+      const code = `module.exports = require('node-gyp-build')(__dirname);`;
+      const result = (plugin.transform as any).call(
+        { parse },
+        code,
+        path.join(tempDir, "index.js")
+      );
+
+      expect(result).toBeDefined();
+      expect(result.code).toContain("foreign-");
+      expect(result.code).not.toContain("host-");
+    });
+
+    it("should fall back to npm_config_platform and npm_config_arch", () => {
+      const foreignTuple = createPrebuilds();
+      const [platform, arch] = foreignTuple.split("-");
+      process.env.npm_config_platform = platform;
+      process.env.npm_config_arch = arch;
+
+      const plugin = nativeFilePlugin() as Plugin;
+      (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+      const code = `module.exports = require('node-gyp-build')(__dirname);`;
+      const result = (plugin.transform as any).call(
+        { parse },
+        code,
+        path.join(tempDir, "index.js")
+      );
+
+      expect(result).toBeDefined();
+      expect(result.code).toContain("foreign-");
+    });
+
+    it("should prefer the explicit target over environment variables", () => {
+      createPrebuilds();
+      process.env.npm_config_platform = "aix";
+      process.env.npm_config_arch = "ppc64";
+
+      const plugin = nativeFilePlugin({
+        target: { platform: process.platform, arch: process.arch },
+      }) as Plugin;
+      (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+      const code = `module.exports = require('node-gyp-build')(__dirname);`;
+      const result = (plugin.transform as any).call(
+        { parse },
+        code,
+        path.join(tempDir, "index.js")
+      );
+
+      expect(result).toBeDefined();
+      expect(result.code).toContain("host-");
+    });
+  });
+
+  describe("Platform-specific package resolution", () => {
+    it("should resolve template literal requires for the configured target", () => {
+      const plugin = nativeFilePlugin({
+        target: { platform: "linux", arch: "riscv64" },
+      }) as Plugin;
+      (plugin.configResolved as any)({ command: "build", mode: "production" });
+
+      for (const pkg of [
+        `${process.platform}-${process.arch}`,
+        "linux-riscv64",
+      ]) {
+        const pkgDir = path.join(tempDir, "node_modules", "@libsql", pkg);
+        fs.mkdirSync(pkgDir, { recursive: true });
+        fs.writeFileSync(
+          path.join(pkgDir, "package.json"),
+          JSON.stringify({ name: `@libsql/${pkg}`, main: "index.node" })
+        );
+        fs.writeFileSync(path.join(pkgDir, "index.node"), Buffer.from(pkg));
+      }
+
+      const code = "const binding = require(`@libsql/${target}`);";
+      const result = (plugin.transform as any).call(
+        { parse },
+        code,
+        path.join(tempDir, "index.js")
+      );
+
+      expect(result).toBeDefined();
+      expect(result.code).toContain("libsql-linux-riscv64-");
+    });
+  });
+});
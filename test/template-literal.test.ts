@@ -0,0 +1,127 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import type { Plugin } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for template literal requires
+ *
+ * Loaders build the package name or file path of the binary from the platform,
+ * e.g. require(`sharp-${platform}`) or
+ * require(`../build/Release/addon-${process.platform}-${process.arch}.node`).
+ * process.platform and process.arch are expanded for the target, and other
+ * expressions match the installed package or file named after the target.
+ */
+describe("Template Literal Requires", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "template-literal-test-"));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  // Writes a file, creating its directory
+  function writeFile(relativePath: string, content: string): string {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  function transform(
+    code: string,
+    libc: "glibc" | "musl" = "glibc"
+  ): { code: string } | null {
+    const plugin = nativeFilePlugin({
+      target: { platform: "linux", arch: "x64", libc },
+    }) as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+    return (plugin.transform as any).call(
+      { parse },
+      code,
+      path.join(tempDir, "node_modules/addon/lib/index.js")
+    );
+  }
+
+  it("should expand process.platform and process.arch in file paths", () => {
+    writeFile("node_modules/addon/build/Release/addon-linux-x64.node", "x64");
+    writeFile(
+      "node_modules/addon/build/Release/addon-darwin-arm64.node",
+      "arm64"
+    );
+
+    const result = transform(
+      "module.exports = require(`../build/Release/addon-${process.platform}-${process.arch}.node`);"
+    );
+
+    expect(result!.code).toMatch(
+      /require\("\.\/addon-addon-linux-x64-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should match files named after the target for unknown expressions", () => {
+    writeFile("node_modules/addon/lib/pkg.linux-x64-gnu.node", "gnu");
+    writeFile("node_modules/addon/lib/pkg.linux-x64-musl.node", "musl");
+    writeFile("node_modules/addon/lib/pkg.darwin-arm64.node", "darwin");
+    const code = "const binding = require(`./pkg.${triple}.node`);";
+
+    expect(transform(code)!.code).toMatch(
+      /require\("\.\/addon-pkg\.linux-x64-gnu-[A-F0-9]{8}\.node"\)/
+    );
+    expect(transform(code, "musl")!.code).toMatch(
+      /require\("\.\/addon-pkg\.linux-x64-musl-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should find unscoped platform packages", () => {
+    for (const name of ["sharp-linux-x64", "sharp-linuxmusl-x64"]) {
+      writeFile(
+        `node_modules/${name}/package.json`,
+        JSON.stringify({ name, main: "sharp.node" })
+      );
+      writeFile(`node_modules/${name}/sharp.node`, name);
+    }
+    const code = `const platform = \`\${process.platform}\${isMusl() ? "musl" : ""}\`;
+const sharp = require(\`sharp-\${platform}-\${process.arch}\`);`;
+
+    expect(transform(code)!.code).toMatch(
+      /require\("\.\/sharp-linux-x64-sharp-[A-F0-9]{8}\.node"\)/
+    );
+    expect(transform(code, "musl")!.code).toMatch(
+      /require\("\.\/sharp-linuxmusl-x64-sharp-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should expand variables destructured from process in package names", () => {
+    writeFile(
+      "node_modules/@scope/pkg-linux-x64/package.json",
+      JSON.stringify({ name: "@scope/pkg-linux-x64", main: "pkg.node" })
+    );
+    writeFile("node_modules/@scope/pkg-linux-x64/pkg.node", "pkg");
+
+    const result = transform(`const { platform, arch } = process;
+module.exports = require(\`@scope/pkg-\${platform}-\${arch}\`);`);
+
+    expect(result!.code).toMatch(
+      /require\("\.\/scope-pkg-linux-x64-pkg-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should leave templates of other files alone", () => {
+    writeFile("node_modules/addon/lib/locales/linux-x64.js", "");
+    const code = "const messages = require(`./locales/${lang}.js`); // a.node";
+
+    expect(transform(code)).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import nativeFilePlugin from "../src/index.js";
+import { build, type Plugin, type Rollup } from "vite";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { parse as acornParse } from "acorn";
+
+// Wrapper to provide the same parse signature as Rollup
+const parse = (code: string) => acornParse(code, { ecmaVersion: "latest" });
+
+/**
+ * Tests for resolving bare specifiers through Vite
+ *
+ * require('<package>') goes through this.resolve first, so package exports,
+ * conditions, aliases and Yarn PnP apply. Walking node_modules is the fallback
+ * when the resolver doesn't lead to a native file.
+ */
+describe("Bare Specifier Resolution", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), "vite-resolution-test-"))
+    );
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  // Writes a file, creating its directory
+  function writeFile(relativePath: string, content: string): string {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  function createPlugin(): Plugin {
+    const plugin = nativeFilePlugin() as Plugin;
+    (plugin.configResolved as any)({ command: "build", mode: "production" });
+    return plugin;
+  }
+
+  it("should use the file the resolver returns", async () => {
+    const nativePath = writeFile(
+      "node_modules/native-exports/lib/addon.node",
+      "exports"
+    );
+    const calls: any[] = [];
+
+    const result = await (createPlugin().transform as any).call(
+      {
+        parse,
+        resolve: async (...args: any[]) => {
+          calls.push(args);
+          return { id: nativePath };
+        },
+      },
+      `const addon = require('native-exports'); // addon.node
+const fs = require('fs');`,
+      path.join(tempDir, "index.js")
+    );
+
+    expect(result.code).toMatch(
+      /require\("\.\/native-exports-addon-[A-F0-9]{8}\.node"\)/
+    );
+    expect(calls).toHaveLength(1);
+    expect(calls[0][0]).toBe("native-exports");
+    expect(calls[0][2]).toMatchObject({
+      skipSelf: true,
+      custom: { "node-resolve": { isRequire: true } },
+    });
+  });
+
+  it("should walk node_modules when the resolver finds no native file", async () => {
+    writeFile(
+      "node_modules/native-main/package.json",
+      JSON.stringify({ name: "native-main", main: "addon.node" })
+    );
+    writeFile("node_modules/native-main/addon.node", "main");
+
+    const result = await (createPlugin().transform as any).call(
+      { parse, resolve: async () => null },
+      `const addon = require('native-main'); // addon.node`,
+      path.join(tempDir, "index.js")
+    );
+
+    expect(result.code).toMatch(
+      /require\("\.\/native-main-addon-[A-F0-9]{8}\.node"\)/
+    );
+  });
+
+  it("should follow package exports and aliases in a real build", async () => {
+    // Only exports point at the binary, so walking node_modules can't find it
+    writeFile(
+      "node_modules/native-exports/package.json",
+      JSON.stringify({
+        name: "native-exports",
+        exports: { ".": { require: "./lib/addon.node" } },
+      })
+    );
+    writeFile("node_modules/native-exports/lib/addon.node", "exports");
+    writeFile("vendor/aliased/addon.node", "alias");
+    writeFile(
+      "node_modules/wrapper/package.json",
+      JSON.stringify({ name: "wrapper", main: "index.js" })
+    );
+    writeFile(
+      "node_modules/wrapper/index.js",
+      `// Loads addon.node binaries
+module.exports = {
+  exported: require('native-exports'),
+  aliased: require('aliased-addon'),
+};`
+    );
+    const entryPath = writeFile(
+      "index.js",
+      `import wrapper from 'wrapper';\nexport { wrapper };\n`
+    );
+
+    const result = (await build({
+      root: tempDir,
+      logLevel: "silent",
+      resolve: {
+        alias: {
+          "aliased-addon": path.join(tempDir, "vendor/aliased/addon.node"),
+        },
+      },
+      build: {
+        write: false,
+        minify: false,
+        lib: { entry: entryPath, formats: ["es", "cjs"] },
+      },
+      plugins: [nativeFilePlugin({ forced: true })],
+    })) as Rollup.RollupOutput | Rollup.RollupOutput[];
+
+    const output = Array.isArray(result) ? result[0] : result;
+    const assets = output.output
+      .filter((o) => o.fileName.endsWith(".node"))
+      .map((o) => o.fileName)
+      .sort();
+
+    expect(assets).toHaveLength(2);
+    expect(assets[0]).toMatch(/^addon-[A-F0-9]{8}\.node$/);
+    expect(assets[1]).toMatch(/^native-exports-addon-[A-F0-9]{8}\.node$/);
+  });
+});